@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { getStorageProvider } from "../../../utils/metadataStorage";
+import {
+  MAX_DOCUMENT_BYTES,
+  isDocumentContentType,
+} from "../../../utils/landDocuments";
+import { verifyUpload } from "../../../utils/uploadAuth";
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+// Stores a title document; the caller records its hash on chain. Like
+// attachDocument, only the land's owner or a registrar for its state may
+// upload.
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return badRequest("Expected multipart form data");
+  }
+
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return badRequest("file is required");
+  }
+  if (!isDocumentContentType(file.type)) {
+    return badRequest("Documents must be PDFs or images");
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return badRequest("Documents must be 10 MB or smaller");
+  }
+
+  let landId: bigint;
+  try {
+    landId = BigInt(String(form.get("landId")));
+  } catch {
+    return badRequest("landId is required");
+  }
+
+  const content = await file.arrayBuffer();
+  const auth = await verifyUpload(form, "document", [content]);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  try {
+    const [owner, land] = await Promise.all([
+      auth.contract.ownerOf(landId),
+      auth.contract.lands(landId),
+    ]);
+    if (
+      owner !== auth.account &&
+      !(await auth.contract.canRegisterIn(auth.account, land.state))
+    ) {
+      return NextResponse.json(
+        { error: `${auth.account} is not the owner or a registrar` },
+        { status: 403 },
+      );
+    }
+  } catch (error) {
+    console.error("Error checking document permissions:", error);
+    return NextResponse.json(
+      { error: `Could not check Land #${landId}` },
+      { status: 502 },
+    );
+  }
+
+  try {
+    const { cid, uri } = await getStorageProvider().uploadFile(
+      file.name,
+      Buffer.from(content),
+      file.type,
+    );
+    return NextResponse.json({ cid, uri });
+  } catch (error) {
+    console.error("Error uploading document:", error);
+    return NextResponse.json(
+      { error: "Storage provider unavailable" },
+      { status: 502 },
+    );
+  }
+}
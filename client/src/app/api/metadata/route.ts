@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getStorageProvider } from "../../../utils/metadataStorage";
+import { LandMetadata } from "../../../utils/landMetadata";
+import { validateLandMetadata } from "../../../utils/landSchema";
+import { verifyUpload } from "../../../utils/uploadAuth";
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+// Pins a registration's metadata (and optional image) with the configured
+// storage provider, so the browser never holds the Pinata credentials. Only
+// registrars for the parcel's state on a recorded deployment may upload.
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return badRequest("Expected multipart form data");
+  }
+
+  const json = String(form.get("metadata"));
+  let metadata: LandMetadata;
+  try {
+    metadata = JSON.parse(json);
+  } catch {
+    return badRequest("metadata must be a JSON document");
+  }
+  const issues = validateLandMetadata(metadata);
+  if (issues.length > 0) {
+    return badRequest(
+      `Invalid metadata: ${issues
+        .map(({ field, message }) => `${field} ${message}`)
+        .join("; ")}`,
+    );
+  }
+
+  const image = form.get("image");
+  if (image !== null && !(image instanceof File)) {
+    return badRequest("image must be a file");
+  }
+  if (image && !image.type.startsWith("image/")) {
+    return badRequest("image must be an image file");
+  }
+  if (image && image.size > MAX_IMAGE_BYTES) {
+    return badRequest("image must be 5 MB or smaller");
+  }
+
+  const imageContent = image ? await image.arrayBuffer() : null;
+  const auth = await verifyUpload(form, "metadata", [
+    new TextEncoder().encode(json),
+    ...(imageContent ? [imageContent] : []),
+  ]);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const state = metadata.properties.state;
+  try {
+    if (!(await auth.contract.canRegisterIn(auth.account, state))) {
+      return NextResponse.json(
+        { error: `${auth.account} is not a registrar for ${state}` },
+        { status: 403 },
+      );
+    }
+  } catch (error) {
+    console.error("Error checking registrar role:", error);
+    return NextResponse.json(
+      { error: "Could not check the registrar role" },
+      { status: 502 },
+    );
+  }
+
+  const surveyNumber = metadata.properties.surveyNumber;
+  try {
+    const storage = getStorageProvider();
+    if (image) {
+      const stored = await storage.uploadFile(
+        `land-${surveyNumber}-${image.name}`,
+        Buffer.from(imageContent!),
+        image.type,
+      );
+      metadata.image = stored.uri;
+    }
+    const { cid, uri } = await storage.uploadJSON(
+      `land-${surveyNumber}`,
+      metadata,
+    );
+    return NextResponse.json({ cid, tokenURI: uri });
+  } catch (error) {
+    console.error("Error uploading metadata:", error);
+    return NextResponse.json(
+      { error: "Storage provider unavailable" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,288 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { ZeroAddress, formatEther } from "ethers";
+import LandMetadataDetails from "../../../components/LandMetadataDetails";
+import LienBadge from "../../../components/LienBadge";
+import {
+  LandDetailDocuments,
+  LandDetailMap,
+  LandDetailOffers,
+} from "../../../components/LandDetailPanels";
+import { DEFAULT_DEPLOYMENT } from "../../../utils/deployments";
+import { fetchLandDocuments } from "../../../utils/landDocuments";
+import { resolveTokenURI } from "../../../utils/landMetadata";
+import {
+  OwnershipChange,
+  fetchLand,
+  fetchOwnershipHistory,
+} from "../../../utils/lands";
+import { fetchLandOffers } from "../../../utils/offers";
+import { getReadOnlyContract } from "../../../utils/readProvider";
+
+// Ownership and listing status change with every block
+export const dynamic = "force-dynamic";
+
+interface LandPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Shared by generateMetadata and the page within one request
+const loadLand = cache(async (id: string) => {
+  const contract = getReadOnlyContract();
+  if (!contract || !/^\d+$/.test(id)) return null;
+  return fetchLand(contract, BigInt(id));
+});
+
+function formatDate(timestamp: bigint | number): string {
+  return new Date(Number(timestamp) * 1000).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export async function generateMetadata({
+  params,
+}: LandPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const land = await loadLand(id).catch(() => null);
+  if (!land) return { title: `Land #${id} | Land Registry` };
+
+  const title = `Land #${id} - ${land.location} | Land Registry`;
+  const description = [
+    land.metadata?.description,
+    `Survey No. ${land.surveyNumber}, ${land.state}.`,
+    land.isForSale
+      ? `For sale at ${formatEther(land.price)} ETH.`
+      : "Not for sale.",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const image = land.metadata?.image
+    ? resolveTokenURI(land.metadata.image)
+    : undefined;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      images: image ? [image] : undefined,
+    },
+  };
+}
+
+function HistoryEntry({ change }: { change: OwnershipChange }) {
+  const isRegistration = change.from === ZeroAddress;
+  return (
+    <li className="flex flex-wrap justify-between gap-2 py-3 text-sm">
+      <div>
+        {isRegistration ? (
+          <p className="text-gray-800">
+            Registered to{" "}
+            <span className="font-mono">{shortAddress(change.to)}</span>
+          </p>
+        ) : (
+          <p className="text-gray-800">
+            <span className="font-mono">{shortAddress(change.from)}</span> →{" "}
+            <span className="font-mono">{shortAddress(change.to)}</span>
+            {change.price !== undefined
+              ? ` for ${formatEther(change.price)} ETH`
+              : " (transfer)"}
+          </p>
+        )}
+        <p
+          className="text-xs text-gray-400 font-mono truncate"
+          title={change.transactionHash}
+        >
+          tx {change.transactionHash.slice(0, 18)}...
+        </p>
+      </div>
+      <span className="text-xs text-gray-500">
+        {change.timestamp ? formatDate(change.timestamp) : ""} · block{" "}
+        {change.blockNumber}
+      </span>
+    </li>
+  );
+}
+
+export default async function LandPage({ params }: LandPageProps) {
+  const { id } = await params;
+  const contract = getReadOnlyContract();
+  if (!contract) {
+    return (
+      <main className="max-w-5xl mx-auto px-4 py-16 text-center text-gray-600">
+        This deployment has no public RPC endpoint, so land details can only be
+        viewed from the <Link href="/">main page</Link> with a wallet.
+      </main>
+    );
+  }
+
+  const land = await loadLand(id);
+  if (!land) notFound();
+
+  const [history, documents, offers, auction, pending] = await Promise.all([
+    fetchOwnershipHistory(contract, land.id, DEFAULT_DEPLOYMENT?.blockNumber),
+    fetchLandDocuments(contract, land.id),
+    fetchLandOffers(contract, land.id),
+    contract.auctions(land.id),
+    contract.pendingTransfers(land.id),
+  ]);
+  const isAuctioned = auction.endTime > BigInt(0);
+  // Sold in escrow: the title stays with the seller until a registrar decides
+  const isPending = pending.buyer !== ZeroAddress;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <header className="bg-white shadow-md">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center gap-3">
+          <span className="text-3xl">🏠</span>
+          <Link href="/" className="text-2xl font-bold text-gray-800">
+            Land Registry
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <Link
+          href="/"
+          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          ← All lands
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex justify-between items-start mb-2">
+            <h1 className="text-2xl font-bold text-gray-800">Land #{id}</h1>
+            <span
+              className={`text-sm px-3 py-1 rounded-full ${
+                isPending
+                  ? "bg-amber-200 text-amber-800"
+                  : isAuctioned
+                    ? "bg-purple-200 text-purple-800"
+                    : land.isForSale
+                      ? "bg-green-200 text-green-800"
+                      : "bg-gray-200 text-gray-600"
+              }`}
+            >
+              {isPending
+                ? "Pending Approval"
+                : isAuctioned
+                  ? "On Auction"
+                  : land.isForSale
+                    ? "For Sale"
+                    : "Sold"}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 mb-1">
+            Survey No. {land.surveyNumber}
+          </p>
+          <p className="text-gray-600 mb-6">
+            📍 {land.location}, {land.state}
+          </p>
+          <LienBadge activeLiens={land.activeLiens} />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <LandDetailMap
+              coordinates={land.coordinates}
+              boundary={land.boundary}
+              landType={land.metadata?.properties?.landType}
+              isForSale={land.isForSale}
+            />
+            <div>
+              <LandMetadataDetails metadata={land.metadata} />
+              <p className="text-xl font-semibold text-indigo-600 mb-2">
+                💰 {formatEther(land.price)} ETH
+              </p>
+              {land.isForSale && land.listedAt > BigInt(0) && (
+                <p className="text-sm text-gray-500 mb-2">
+                  On market since {formatDate(land.listedAt)}
+                </p>
+              )}
+              <p className="text-sm text-gray-500">Owner</p>
+              <p className="font-mono text-sm text-gray-800 break-all mb-4">
+                {land.owner}
+              </p>
+              {land.isForSale && land.activeLiens === BigInt(0) && (
+                <Link
+                  href={`/?q=${encodeURIComponent(land.surveyNumber)}`}
+                  className="inline-block bg-green-500 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+                >
+                  Buy on the marketplace
+                </Link>
+              )}
+              {isAuctioned && (
+                <Link
+                  href="/"
+                  className="inline-block bg-purple-500 hover:bg-purple-600 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+                >
+                  Bid until{" "}
+                  {new Date(Number(auction.endTime) * 1000).toLocaleString(
+                    "en-IN",
+                  )}
+                </Link>
+              )}
+              {isPending && (
+                <p className="text-sm text-amber-700">
+                  ⏳ Sold to{" "}
+                  <span className="font-mono">
+                    {shortAddress(pending.buyer)}
+                  </span>{" "}
+                  for {formatEther(pending.price)} ETH, awaiting registrar
+                  approval until {formatDate(pending.deadline)}
+                </p>
+              )}
+              {!land.isForSale && !isAuctioned && !isPending && (
+                <Link
+                  href={`/?q=${encodeURIComponent(land.surveyNumber)}`}
+                  className="inline-block border border-indigo-300 text-indigo-600 hover:bg-indigo-50 px-6 py-2 rounded-lg font-medium transition-colors"
+                >
+                  Make an offer
+                </Link>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-800 mb-2">
+            Ownership History
+          </h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No transfers recorded.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {history.map((change) => (
+                <HistoryEntry
+                  key={`${change.transactionHash}-${change.to}`}
+                  change={change}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-800">Offers</h2>
+          <LandDetailOffers
+            land={{ id: land.id, owner: land.owner, state: land.state }}
+            offers={offers}
+          />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-800">Title Documents</h2>
+          <LandDetailDocuments landId={land.id} documents={documents} />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,85 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  Suspense,
+} from "react";
 import dynamic from "next/dynamic";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { BrowserProvider, Contract, parseEther, formatEther } from "ethers";
-import contractConfig from "../utils/contractConfig.json";
+import ListingControls, {
+  formatMarketSince,
+} from "../components/ListingControls";
+import { INDIAN_STATES } from "../utils/indianStates";
+import { toFixedPoint } from "../utils/coordinates";
+import {
+  boundaryHash,
+  polygonCentroid,
+  polygonFromLatLngs,
+} from "../utils/geometry";
+import {
+  LAND_TYPES,
+  createLandMetadata,
+  uploadLandMetadata,
+} from "../utils/landMetadata";
+import LandMetadataDetails from "../components/LandMetadataDetails";
+import LienBadge from "../components/LienBadge";
+import {
+  Land,
+  OnChainLand,
+  PurchaseQuote,
+  fetchLandBySurveyNumber,
+  fetchPurchaseQuote,
+  findOverlappingLands,
+  isQuotedBy,
+  toClientLands,
+} from "../utils/lands";
+import LandDocuments from "../components/LandDocuments";
+import LandFilterBar from "../components/LandFilterBar";
+import { getReadOnlyContract } from "../utils/readProvider";
+import {
+  DEFAULT_DEPLOYMENT,
+  getDeployment,
+  networkName,
+} from "../utils/deployments";
+import NetworkPicker from "../components/NetworkPicker";
+import BuyConfirmation from "../components/BuyConfirmation";
+import PendingTransfers from "../components/PendingTransfers";
+import LandOffers from "../components/LandOffers";
+import IncomingOffers from "../components/IncomingOffers";
+import Auctions from "../components/Auctions";
+import { LandAuction, fetchActiveAuctions } from "../utils/auctions";
+import {
+  IncomingOffer,
+  LandOffer,
+  fetchIncomingOffers,
+  offerExpiry,
+  stampDutyOn,
+} from "../utils/offers";
+import {
+  PendingTransfer,
+  fetchPendingTransfers,
+} from "../utils/pendingTransfers";
+import {
+  LandFilters,
+  LandView,
+  filterLands,
+  hasActiveLandFilters,
+  landFiltersToQuery,
+  needsAllLands,
+  parseLandFilters,
+  sortLands,
+} from "../utils/landFilters";
+import {
+  MAX_DOCUMENT_BYTES,
+  isDocumentContentType,
+  uploadLandDocument,
+} from "../utils/landDocuments";
 
 // Dynamically import Map component to avoid SSR issues with Leaflet
 const Map = dynamic(() => import("../components/Map"), {
@@ -15,12 +91,24 @@ const Map = dynamic(() => import("../components/Map"), {
   ),
 });
 
-interface Land {
-  id: bigint;
-  location: string;
-  price: bigint;
-  isForSale: boolean;
-  seller: string;
+const LANDS_PAGE_SIZE = 12;
+
+const LAND_VIEW_TITLES: Record<LandView, string> = {
+  all: "All Lands",
+  forSale: "Available Lands",
+  mine: "My Lands",
+};
+
+const LAND_VIEW_LABELS: Record<LandView, string> = {
+  all: "All",
+  forSale: "For Sale",
+  mine: "Owned by Me",
+};
+
+interface RegistrarRole {
+  isOwner: boolean;
+  active: boolean;
+  state: string;
 }
 
 declare global {
@@ -39,23 +127,94 @@ declare global {
   }
 }
 
-export default function Home() {
+// Signer-backed contract for the wallet's chain; null when nothing is
+// deployed there
+async function walletContract(browserProvider: BrowserProvider) {
+  const chainId = Number((await browserProvider.getNetwork()).chainId);
+  const deployment = getDeployment(chainId);
+  const contract = deployment
+    ? new Contract(
+        deployment.address,
+        deployment.abi,
+        await browserProvider.getSigner(),
+      )
+    : null;
+  return { chainId, contract };
+}
+
+function LandRegistryApp() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // The query string is the source of truth, so a filtered view can be shared
+  const filters = useMemo(() => parseLandFilters(searchParams), [searchParams]);
   const [account, setAccount] = useState<string | null>(null);
+  // "Owned by Me" needs a wallet; a shared link falls back to all lands
+  const landView = filters.view === "mine" && !account ? "all" : filters.view;
   const [lands, setLands] = useState<Land[]>([]);
+  const [totalLands, setTotalLands] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // How many lands are currently loaded, so a refresh reloads the same window
+  const loadedCountRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
-  const [selectedCoords, setSelectedCoords] = useState<[number, number] | null>(
+  // Boundary vertices drawn on the map as [lat, lng]
+  const [boundaryPoints, setBoundaryPoints] = useState<[number, number][]>([]);
+  const [newLandPrice, setNewLandPrice] = useState("");
+  const [newLandAddress, setNewLandAddress] = useState("");
+  const [newLandSurveyNumber, setNewLandSurveyNumber] = useState("");
+  const [surveySearch, setSurveySearch] = useState("");
+  // The land whose survey number is exactly the search query, if any
+  const [surveyMatch, setSurveyMatch] = useState<{
+    surveyNumber: string;
+    land: Land | null;
+  } | null>(null);
+  const [focusedLand, setFocusedLand] = useState<Land | null>(null);
+  const [newLandState, setNewLandState] = useState("");
+  const [newLandDistrict, setNewLandDistrict] = useState("");
+  const [newLandArea, setNewLandArea] = useState("");
+  const [newLandType, setNewLandType] = useState("");
+  const [newLandDescription, setNewLandDescription] = useState("");
+  const [newLandImage, setNewLandImage] = useState<File | null>(null);
+  const newLandImageInput = useRef<HTMLInputElement>(null);
+  const [registrarRole, setRegistrarRole] = useState<RegistrarRole | null>(
     null,
   );
-  const [newLandPrice, setNewLandPrice] = useState("");
+  // Signer-backed; only exists once a wallet is connected
   const [contract, setContract] = useState<Contract | null>(null);
-  const [provider, setProvider] = useState<BrowserProvider | null>(null);
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  const walletDeployment =
+    walletChainId !== null ? getDeployment(walletChainId) : null;
+  const isUnsupportedChain = walletChainId !== null && !walletDeployment;
+  const activeDeployment = walletDeployment ?? DEFAULT_DEPLOYMENT;
+  // Reads use the deployment's public endpoint when it has one, so visitors
+  // can browse without a wallet
+  const landReader = useMemo(
+    () => getReadOnlyContract(walletDeployment?.chainId) ?? contract,
+    [walletDeployment, contract],
+  );
   const [notification, setNotification] = useState<{
     message: string;
     type: "success" | "error";
   } | null>(null);
   const [transactionStatus, setTransactionStatus] = useState<string>("");
   const [showAccountMenu, setShowAccountMenu] = useState(false);
+  // Escrowed sales awaiting a registrar
+  const [pendingTransfers, setPendingTransfers] = useState<PendingTransfer[]>(
+    [],
+  );
+  // Open offers on the account's parcels
+  const [incomingOffers, setIncomingOffers] = useState<IncomingOffer[]>([]);
+  // Running auctions, and the account's withdrawable deposits, proceeds and
+  // refunds
+  const [auctions, setAuctions] = useState<LandAuction[]>([]);
+  const [pendingWithdrawal, setPendingWithdrawal] = useState(BigInt(0));
+  // Shown for confirmation before buyLand is sent
+  const [pendingPurchase, setPendingPurchase] = useState<{
+    land: Land;
+    quote: PurchaseQuote;
+  } | null>(null);
 
   const showNotification = useCallback(
     (message: string, type: "success" | "error") => {
@@ -65,73 +224,89 @@ export default function Home() {
     [],
   );
 
+  const updateFilters = useCallback(
+    (changes: Partial<LandFilters>) => {
+      const query = landFiltersToQuery({ ...filters, ...changes });
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [filters, pathname, router],
+  );
+
   const disconnectWallet = useCallback(() => {
     setAccount(null);
     setContract(null);
-    setProvider(null);
+    setWalletChainId(null);
     setLands([]);
+    setTotalLands(0);
+    loadedCountRef.current = 0;
+    setRegistrarRole(null);
+    setIncomingOffers([]);
+    setPendingWithdrawal(BigInt(0));
+    setIsRegistering(false);
     setShowAccountMenu(false);
     showNotification("Wallet disconnected", "success");
   }, [showNotification]);
 
-  const switchToHardhatNetwork = useCallback(async () => {
-    if (!window.ethereum) return false;
-
-    const hardhatChainId = "0x7A69"; // 31337 in hex
+  // The page reloads on chainChanged, which reconnects on the new chain
+  const switchNetwork = useCallback(
+    async (chainId: number) => {
+      if (!window.ethereum) return;
+      const deployment = getDeployment(chainId);
+      const hexChainId = `0x${chainId.toString(16)}`;
 
-    try {
-      await window.ethereum.request({
-        method: "wallet_switchEthereumChain",
-        params: [{ chainId: hardhatChainId }],
-      });
-      return true;
-    } catch (switchError: unknown) {
-      // Chain not added, add it
-      if ((switchError as { code: number }).code === 4902) {
-        try {
-          await window.ethereum.request({
-            method: "wallet_addEthereumChain",
-            params: [
-              {
-                chainId: hardhatChainId,
-                chainName: "Hardhat Local",
-                nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
-                rpcUrls: ["http://127.0.0.1:8545"],
-                blockExplorerUrls: [],
-              },
-            ],
-          });
-          return true;
-        } catch {
-          return false;
+      try {
+        await window.ethereum.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: hexChainId }],
+        });
+      } catch (switchError: unknown) {
+        // Chain not added, add it if we know a public endpoint for it
+        if (
+          (switchError as { code: number }).code === 4902 &&
+          deployment?.rpcUrl
+        ) {
+          try {
+            await window.ethereum.request({
+              method: "wallet_addEthereumChain",
+              params: [
+                {
+                  chainId: hexChainId,
+                  chainName: networkName(deployment),
+                  nativeCurrency: {
+                    name: "Ether",
+                    symbol: "ETH",
+                    decimals: 18,
+                  },
+                  rpcUrls: [deployment.rpcUrl],
+                  blockExplorerUrls: [],
+                },
+              ],
+            });
+            return;
+          } catch {
+            // Reported below
+          }
         }
+        showNotification(
+          `Please switch your wallet to chain ${chainId} manually`,
+          "error",
+        );
       }
-      return false;
-    }
-  }, []);
+    },
+    [showNotification],
+  );
 
-  const connectWallet = useCallback(async () => {
+  // Resolves to the signer-backed contract, or null if connecting failed
+  const connectWallet = useCallback(async (): Promise<Contract | null> => {
     if (!window.ethereum) {
       showNotification("Please install MetaMask!", "error");
-      return;
+      return null;
     }
 
     try {
       setIsLoading(true);
-      setTransactionStatus("Switching to Hardhat network...");
-
-      // Switch to Hardhat network first
-      const switched = await switchToHardhatNetwork();
-      if (!switched) {
-        showNotification(
-          "Please switch to Hardhat Local network (Chain ID: 31337)",
-          "error",
-        );
-        setIsLoading(false);
-        setTransactionStatus("");
-        return;
-      }
-
       setTransactionStatus("Connecting to wallet...");
       const browserProvider = new BrowserProvider(window.ethereum);
       const accounts = (await window.ethereum.request({
@@ -140,25 +315,31 @@ export default function Home() {
 
       if (accounts.length > 0) {
         setAccount(accounts[0]);
-        setProvider(browserProvider);
 
-        const signer = await browserProvider.getSigner();
-        const landContract = new Contract(
-          contractConfig.address,
-          contractConfig.abi,
-          signer,
-        );
+        const { chainId, contract: landContract } =
+          await walletContract(browserProvider);
+        setWalletChainId(chainId);
         setContract(landContract);
+        if (!landContract) {
+          showNotification(
+            "The Land Registry is not deployed on this network",
+            "error",
+          );
+          return null;
+        }
         showNotification("Wallet connected successfully!", "success");
+        return landContract;
       }
+      return null;
     } catch (error) {
       console.error("Error connecting wallet:", error);
       showNotification("Failed to connect wallet", "error");
+      return null;
     } finally {
       setIsLoading(false);
       setTransactionStatus("");
     }
-  }, [showNotification, switchToHardhatNetwork]);
+  }, [showNotification]);
 
   const switchAccount = async () => {
     if (!window.ethereum) return;
@@ -184,29 +365,232 @@ export default function Home() {
     }
   };
 
-  const fetchLands = useCallback(async () => {
-    if (!contract) return;
+  const fetchLandPage = useCallback(
+    async (offset: number, limit: number) => {
+      if (!landReader) return null;
 
+      let pageLands: OnChainLand[];
+      let total: bigint;
+      if (landView === "forSale") {
+        [pageLands, total] = await Promise.all([
+          landReader.getLandsForSale(offset, limit),
+          landReader.forSaleCount(),
+        ]);
+      } else if (landView === "mine" && account) {
+        [pageLands, total] = await Promise.all([
+          landReader.getLandsByOwner(account, offset, limit),
+          landReader.balanceOf(account),
+        ]);
+      } else {
+        [pageLands, total] = await Promise.all([
+          landReader.getLands(offset, limit),
+          landReader.nextTokenId(),
+        ]);
+      }
+
+      const formattedLands = await toClientLands(landReader, pageLands);
+      return { lands: formattedLands, total: Number(total) };
+    },
+    [landReader, landView, account],
+  );
+
+  const refreshPendingTransfers = useCallback(async () => {
+    if (!landReader) return;
     try {
-      const allLands = await contract.getAllLands();
-      const formattedLands: Land[] = allLands.map((land: Land) => ({
-        id: land.id,
-        location: land.location,
-        price: land.price,
-        isForSale: land.isForSale,
-        seller: land.seller,
-      }));
-      setLands(formattedLands);
+      setPendingTransfers(
+        await fetchPendingTransfers(landReader, activeDeployment?.blockNumber),
+      );
+    } catch (error) {
+      console.error("Error fetching pending transfers:", error);
+    }
+  }, [landReader, activeDeployment]);
+
+  const refreshIncomingOffers = useCallback(async () => {
+    if (!landReader || !account) return;
+    try {
+      setIncomingOffers(await fetchIncomingOffers(landReader, account));
+    } catch (error) {
+      console.error("Error fetching incoming offers:", error);
+    }
+  }, [landReader, account]);
+
+  const refreshAuctions = useCallback(async () => {
+    if (!landReader) return;
+    try {
+      const [activeAuctions, withdrawable] = await Promise.all([
+        fetchActiveAuctions(landReader, activeDeployment?.blockNumber),
+        account ? landReader.pendingWithdrawals(account) : BigInt(0),
+      ]);
+      setAuctions(activeAuctions);
+      setPendingWithdrawal(withdrawable);
+    } catch (error) {
+      console.error("Error fetching auctions:", error);
+    }
+  }, [landReader, activeDeployment, account]);
+
+  // Reloads the loaded pages, the escrow queue, incoming offers and
+  // auctions, e.g. after a transaction
+  const fetchLands = useCallback(async () => {
+    try {
+      const result = await fetchLandPage(
+        0,
+        Math.max(loadedCountRef.current, LANDS_PAGE_SIZE),
+      );
+      if (!result) return;
+      loadedCountRef.current = result.lands.length;
+      setLands(result.lands);
+      setTotalLands(result.total);
+      await refreshPendingTransfers();
+      await refreshIncomingOffers();
+      await refreshAuctions();
     } catch (error) {
       console.error("Error fetching lands:", error);
     }
-  }, [contract]);
+  }, [
+    fetchLandPage,
+    refreshPendingTransfers,
+    refreshIncomingOffers,
+    refreshAuctions,
+  ]);
+
+  const pendingLandIds = useMemo(
+    () => new Set(pendingTransfers.map((transfer) => transfer.landId)),
+    [pendingTransfers],
+  );
+  const auctionLandIds = useMemo(
+    () => new Set(auctions.map((auction) => auction.landId)),
+    [auctions],
+  );
+
+  const hasMoreLands = lands.length < totalLands;
+
+  const loadMoreLands = useCallback(async () => {
+    if (isLoadingMore || !hasMoreLands) return;
+
+    try {
+      setIsLoadingMore(true);
+      const result = await fetchLandPage(lands.length, LANDS_PAGE_SIZE);
+      if (!result) return;
+      // Index sets are reordered on sale/delist, so drop ids we already have
+      const loadedIds = new Set(lands.map((land) => land.id));
+      const nextLands = [
+        ...lands,
+        ...result.lands.filter((land) => !loadedIds.has(land.id)),
+      ];
+      loadedCountRef.current = nextLands.length;
+      setLands(nextLands);
+      setTotalLands(result.total);
+    } catch (error) {
+      console.error("Error loading more lands:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [fetchLandPage, hasMoreLands, isLoadingMore, lands]);
+
+  const changeLandView = (view: LandView) => {
+    if (view === landView) return;
+    loadedCountRef.current = 0;
+    setLands([]);
+    setTotalLands(0);
+    updateFilters({ view });
+  };
 
+  // The contract can't filter or sort, so while either is active every page
+  // of the view is loaded, one page per render, and filtered here
   useEffect(() => {
-    if (contract) {
-      fetchLands();
+    if (!needsAllLands(filters) || !hasMoreLands || isLoadingMore) return;
+    const timer = setTimeout(loadMoreLands);
+    return () => clearTimeout(timer);
+  }, [filters, hasMoreLands, isLoadingMore, loadMoreLands]);
+
+  // An exact survey number resolves straight away, before its page loads
+  useEffect(() => {
+    const surveyNumber = filters.query.trim();
+    if (!landReader || !surveyNumber) return;
+
+    let cancelled = false;
+    fetchLandBySurveyNumber(landReader, surveyNumber)
+      .then((land) => {
+        if (!cancelled) setSurveyMatch({ surveyNumber, land });
+      })
+      .catch((error) => console.error("Error resolving survey number:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [landReader, filters.query]);
+
+  const visibleLands = useMemo(() => {
+    const match =
+      surveyMatch?.surveyNumber === filters.query.trim()
+        ? surveyMatch.land
+        : null;
+    const inView =
+      !!match &&
+      (landView === "forSale"
+        ? match.isForSale
+        : landView === "mine"
+          ? match.owner.toLowerCase() === account?.toLowerCase()
+          : true);
+    const candidates =
+      match && inView && !lands.some((land) => land.id === match.id)
+        ? [...lands, match]
+        : lands;
+    return sortLands(filterLands(candidates, filters), filters.sort);
+  }, [lands, filters, surveyMatch, landView, account]);
+  const isFiltered = hasActiveLandFilters(filters);
+
+  const fetchRegistrarRole = useCallback(async () => {
+    if (!contract || !account) return;
+
+    try {
+      const [owner, [active, state]] = await Promise.all([
+        contract.owner(),
+        contract.registrars(account),
+      ]);
+      const role: RegistrarRole = {
+        isOwner: owner.toLowerCase() === account.toLowerCase(),
+        active,
+        state,
+      };
+      setRegistrarRole(role);
+      setNewLandState(role.isOwner ? "" : state);
+    } catch (error) {
+      console.error("Error fetching registrar role:", error);
+      setRegistrarRole(null);
     }
-  }, [contract, fetchLands]);
+  }, [contract, account]);
+
+  useEffect(() => {
+    if (landReader) fetchLands();
+  }, [landReader, fetchLands]);
+
+  useEffect(() => {
+    if (contract) fetchRegistrarRole();
+  }, [contract, fetchRegistrarRole]);
+
+  // Infinite scroll: load the next page when the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreLands) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMoreLands();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreLands, loadMoreLands]);
+
+  const canRegister = !!registrarRole?.isOwner || !!registrarRole?.active;
+  // Empty when the account may register in any state
+  const registrarState = registrarRole?.isOwner ? "" : registrarRole?.state;
+  const canAttachDocuments = (land: Land) =>
+    land.owner.toLowerCase() === account?.toLowerCase() ||
+    (canRegister && (!registrarState || registrarState === land.state));
+  const registrationBlockedReason = canRegister
+    ? ""
+    : "Only authorised land registrars can register parcels. Ask the land department to grant your account a registrar role.";
 
   useEffect(() => {
     // Check if already connected
@@ -241,13 +625,9 @@ export default function Home() {
         setAccount(accountList[0]);
         if (window.ethereum) {
           const browserProvider = new BrowserProvider(window.ethereum);
-          setProvider(browserProvider);
-          const signer = await browserProvider.getSigner();
-          const landContract = new Contract(
-            contractConfig.address,
-            contractConfig.abi,
-            signer,
-          );
+          const { chainId, contract: landContract } =
+            await walletContract(browserProvider);
+          setWalletChainId(chainId);
           setContract(landContract);
           showNotification(
             `Switched to ${accountList[0].slice(0, 6)}...${accountList[0].slice(
@@ -272,29 +652,95 @@ export default function Home() {
     };
   }, [account, disconnectWallet, showNotification]);
 
+  const startRegistering = async () => {
+    if (!contract && !(await connectWallet())) return;
+    setIsRegistering(true);
+  };
+
   const handleMapClick = (lat: number, lng: number) => {
     if (isRegistering) {
-      setSelectedCoords([lat, lng]);
+      setBoundaryPoints((points) => [...points, [lat, lng]]);
     }
   };
 
   const registerLand = async () => {
-    if (!contract || !selectedCoords || !newLandPrice) {
-      showNotification("Please select location and enter price", "error");
+    if (
+      !contract ||
+      boundaryPoints.length < 3 ||
+      !newLandSurveyNumber.trim() ||
+      !newLandAddress.trim() ||
+      !(Number(newLandPrice) > 0) ||
+      !newLandState ||
+      !newLandDistrict.trim() ||
+      !newLandArea ||
+      !newLandType
+    ) {
+      showNotification(
+        "Please draw the boundary and fill in survey number, address, district, state, area, land type and a price above 0",
+        "error",
+      );
       return;
     }
 
+    const boundary = polygonFromLatLngs(boundaryPoints);
+    const surveyNumber = newLandSurveyNumber.trim();
+
     try {
       setIsLoading(true);
-      setTransactionStatus("Preparing transaction...");
-      const location = `Lat: ${selectedCoords[0].toFixed(
-        4,
-      )}, Lng: ${selectedCoords[1].toFixed(4)}`;
+      setTransactionStatus("Checking survey number...");
+      if (await contract.isSurveyNumberRegistered(surveyNumber)) {
+        showNotification(
+          `Survey number ${surveyNumber} is already registered`,
+          "error",
+        );
+        return;
+      }
+
+      setTransactionStatus("Checking boundary against registered lands...");
+      const overlapping = await findOverlappingLands(contract, boundary);
+      if (overlapping.length > 0) {
+        showNotification(
+          `Boundary overlaps ${overlapping
+            .map((id) => `Land #${id.toString()}`)
+            .join(", ")}`,
+          "error",
+        );
+        return;
+      }
+
+      setTransactionStatus("Uploading metadata...");
       const priceInWei = parseEther(newLandPrice);
-      const tokenURI = `https://example.com/land/${Date.now()}`;
+      const [lat, lng] = polygonCentroid(boundaryPoints);
+      const metadata = createLandMetadata({
+        surveyNumber,
+        location: newLandAddress.trim(),
+        district: newLandDistrict.trim(),
+        state: newLandState,
+        area: `${newLandArea} sq meters`,
+        landType: newLandType,
+        price: newLandPrice,
+        description: newLandDescription.trim(),
+        owner: account!,
+        coordinates: { lat, lng },
+        boundary,
+      });
+      const tokenURI = await uploadLandMetadata(
+        contract,
+        metadata,
+        newLandImage,
+      );
 
       setTransactionStatus("Please confirm in MetaMask...");
-      const tx = await contract.registerLand(location, priceInWei, tokenURI);
+      const tx = await contract.registerLand(
+        surveyNumber,
+        newLandAddress.trim(),
+        newLandState,
+        toFixedPoint(lat),
+        toFixedPoint(lng),
+        boundaryHash(boundary),
+        priceInWei,
+        tokenURI,
+      );
       setTransactionStatus(
         "Transaction submitted. Waiting for confirmation...",
       );
@@ -302,34 +748,136 @@ export default function Home() {
 
       showNotification("Land registered successfully!", "success");
       setIsRegistering(false);
-      setSelectedCoords(null);
+      setBoundaryPoints([]);
+      setNewLandSurveyNumber("");
+      setNewLandAddress("");
       setNewLandPrice("");
+      setNewLandDistrict("");
+      setNewLandArea("");
+      setNewLandType("");
+      setNewLandDescription("");
+      setNewLandImage(null);
+      if (newLandImageInput.current) newLandImageInput.current.value = "";
       await fetchLands();
     } catch (error) {
       console.error("Error registering land:", error);
-      showNotification("Failed to register land", "error");
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      if (errorMessage.includes("Not a registrar for this state")) {
+        showNotification(
+          `You are not authorised to register land in ${newLandState}`,
+          "error",
+        );
+      } else if (errorMessage.includes("Survey number already registered")) {
+        showNotification(
+          `Survey number ${surveyNumber} is already registered`,
+          "error",
+        );
+      } else if (errorMessage.startsWith("Metadata upload failed")) {
+        showNotification(errorMessage, "error");
+      } else {
+        showNotification("Failed to register land", "error");
+      }
     } finally {
       setIsLoading(false);
       setTransactionStatus("");
     }
   };
 
-  const buyLand = async (landId: bigint) => {
-    if (!contract) return;
+  const searchBySurveyNumber = async () => {
+    const surveyNumber = surveySearch.trim();
+    if (!landReader || !surveyNumber) return;
+
+    try {
+      const land = await fetchLandBySurveyNumber(landReader, surveyNumber);
+      if (!land) {
+        showNotification(`No land with survey number ${surveyNumber}`, "error");
+        return;
+      }
+      setFocusedLand(land);
+    } catch (error) {
+      console.error("Error searching survey number:", error);
+      showNotification("Failed to search survey number", "error");
+    }
+  };
 
+  // Quotes the price plus stamp duty; the purchase is sent from the dialog
+  const buyLand = async (landId: bigint) => {
     const land = lands.find((l) => l.id === landId);
-    if (!land) return;
+    if (!land || !landReader) return;
+
+    try {
+      setPendingPurchase({
+        land,
+        quote: await fetchPurchaseQuote(landReader, land),
+      });
+    } catch (error) {
+      console.error("Error quoting purchase:", error);
+      showNotification("Failed to load the purchase total", "error");
+    }
+  };
+
+  const confirmPurchase = async () => {
+    if (!pendingPurchase) return;
+    const { land, quote } = pendingPurchase;
+    setPendingPurchase(null);
+
+    // Browsing needs no wallet; buying connects one on demand
+    const signerContract = contract ?? (await connectWallet());
+    if (!signerContract) return;
+
+    // The quote was read through the active deployment's public endpoint. If
+    // the wallet sends to another chain or registry, quote the same survey
+    // number there instead and let the buyer review it before paying.
+    try {
+      if (!(await isQuotedBy(signerContract, quote))) {
+        if (
+          !(await signerContract.isSurveyNumberRegistered(land.surveyNumber))
+        ) {
+          showNotification(
+            `${land.surveyNumber} is not registered on your wallet's network`,
+            "error",
+          );
+          return;
+        }
+        const tokenId: bigint = await signerContract.getTokenIdBySurveyNumber(
+          land.surveyNumber,
+        );
+        const [current] = await toClientLands(
+          signerContract,
+          await signerContract.getLands(tokenId, 1),
+        );
+        setPendingPurchase({
+          land: current,
+          quote: await fetchPurchaseQuote(signerContract, current),
+        });
+        showNotification(
+          "Your wallet is on a different deployment - please review the purchase again",
+          "error",
+        );
+        return;
+      }
+    } catch (error) {
+      console.error("Error checking the purchase quote:", error);
+      showNotification("Failed to load the purchase total", "error");
+      return;
+    }
 
     try {
       setIsLoading(true);
       setTransactionStatus("Please confirm purchase in MetaMask...");
-      const tx = await contract.buyLand(landId, { value: land.price });
+      const tx = await signerContract.buyLand(land.id, { value: quote.total });
       setTransactionStatus(
         "Transaction submitted. Waiting for confirmation...",
       );
       await tx.wait();
 
-      showNotification("Land purchased successfully!", "success");
+      showNotification(
+        quote.escrowPeriod > BigInt(0)
+          ? "Payment held in escrow until a registrar approves the transfer"
+          : "Land purchased successfully!",
+        "success",
+      );
       await fetchLands();
     } catch (error: unknown) {
       console.error("Error buying land:", error);
@@ -337,6 +885,11 @@ export default function Home() {
         error instanceof Error ? error.message : "Unknown error";
       if (errorMessage.includes("You already own this")) {
         showNotification("You already own this land!", "error");
+      } else if (errorMessage.includes("Insufficient funds")) {
+        showNotification(
+          "The price or stamp duty went up - please review the purchase again",
+          "error",
+        );
       } else {
         showNotification("Failed to purchase land", "error");
       }
@@ -346,6 +899,273 @@ export default function Home() {
     }
   };
 
+  // Resolves to whether the transaction went through. Reads the action needs
+  // belong inside it, so their failures are reported like the transaction's.
+  const sendListingTransaction = async (
+    action: () => Promise<{ wait: () => Promise<unknown> }>,
+    successMessage: string | (() => string),
+    failureMessage: string,
+  ): Promise<boolean> => {
+    if (!contract) return false;
+
+    try {
+      setIsLoading(true);
+      setTransactionStatus("Please confirm in MetaMask...");
+      const tx = await action();
+      setTransactionStatus(
+        "Transaction submitted. Waiting for confirmation...",
+      );
+      await tx.wait();
+
+      showNotification(
+        typeof successMessage === "string" ? successMessage : successMessage(),
+        "success",
+      );
+      await fetchLands();
+      return true;
+    } catch (error) {
+      console.error(failureMessage, error);
+      showNotification(failureMessage, "error");
+      return false;
+    } finally {
+      setIsLoading(false);
+      setTransactionStatus("");
+    }
+  };
+
+  const listLand = async (landId: bigint, price: string) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.listLand(landId, parseEther(price)),
+      "Land listed for sale!",
+      "Failed to list land",
+    );
+  };
+
+  const delistLand = async (landId: bigint) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.delistLand(landId),
+      "Listing withdrawn",
+      "Failed to withdraw listing",
+    );
+  };
+
+  const updateLandPrice = async (landId: bigint, price: string) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.updatePrice(landId, parseEther(price)),
+      "Price updated!",
+      "Failed to update price",
+    );
+  };
+
+  const approveTransfer = async (landId: bigint) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.approveTransfer(landId),
+      "Transfer approved - title and payment released",
+      "Failed to approve transfer",
+    );
+  };
+
+  const rejectTransfer = async (landId: bigint, reason: string) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.rejectTransfer(landId, reason),
+      "Transfer rejected - buyer refunded",
+      "Failed to reject transfer",
+    );
+  };
+
+  const refundTransfer = async (landId: bigint) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.refundExpiredTransfer(landId),
+      "Expired transfer refunded",
+      "Failed to refund transfer",
+    );
+  };
+
+  // Deposits the price plus the state's current stamp duty
+  const makeOffer = async (landId: bigint, price: string, days: number) => {
+    const land = lands.find((l) => l.id === landId);
+    if (!contract || !land) return false;
+    return sendListingTransaction(
+      async () => {
+        const offerPrice = parseEther(price);
+        const stampDutyBps: bigint = await contract.stampDutyBps(land.state);
+        return contract.makeOffer(landId, offerPrice, offerExpiry(days), {
+          value: offerPrice + stampDutyOn(offerPrice, stampDutyBps),
+        });
+      },
+      "Offer placed - your deposit is held until the owner decides",
+      "Failed to place offer",
+    );
+  };
+
+  const withdrawOffer = async (landId: bigint, index: number) => {
+    if (!contract) return false;
+    return sendListingTransaction(
+      () => contract.withdrawOffer(landId, index),
+      "Offer withdrawn - deposit refunded",
+      "Failed to withdraw offer",
+    );
+  };
+
+  const acceptOffer = async (landId: bigint, index: number) => {
+    if (!contract) return false;
+    let escrowPeriod = BigInt(0);
+    return sendListingTransaction(
+      async () => {
+        escrowPeriod = await contract.escrowPeriod();
+        return contract.acceptOffer(landId, index);
+      },
+      () =>
+        escrowPeriod > BigInt(0)
+          ? "Offer accepted - awaiting registrar approval"
+          : "Offer accepted - land sold!",
+      "Failed to accept offer",
+    );
+  };
+
+  const rejectOffer = async (landId: bigint, index: number) => {
+    if (!contract) return false;
+    return sendListingTransaction(
+      () => contract.rejectOffer(landId, index),
+      "Offer rejected - buyer refunded",
+      "Failed to reject offer",
+    );
+  };
+
+  const counterOffer = async (landId: bigint, index: number, price: string) => {
+    if (!contract) return false;
+    return sendListingTransaction(
+      () => contract.counterOffer(landId, index, parseEther(price)),
+      "Counter-offer sent",
+      "Failed to send counter-offer (it must exceed the offer)",
+    );
+  };
+
+  // Tops the deposit up to the counter price plus its stamp duty
+  const acceptCounterOffer = async (landId: bigint, offer: LandOffer) => {
+    const land = lands.find((l) => l.id === landId);
+    if (!contract || !land) return false;
+    return sendListingTransaction(
+      async () => {
+        const stampDutyBps: bigint = await contract.stampDutyBps(land.state);
+        const total =
+          offer.counterPrice + stampDutyOn(offer.counterPrice, stampDutyBps);
+        const deposit = offer.price + offer.stampDuty;
+        return contract.acceptCounterOffer(landId, offer.index, {
+          value: total > deposit ? total - deposit : BigInt(0),
+        });
+      },
+      "Counter-offer accepted!",
+      "Failed to accept counter-offer",
+    );
+  };
+
+  // Deposits the bid plus the state's current stamp duty
+  const placeBid = async (landId: bigint, amount: string) => {
+    const auction = auctions.find((a) => a.landId === landId);
+    if (!contract || !auction) return false;
+    return sendListingTransaction(
+      async () => {
+        const bidAmount = parseEther(amount);
+        const stampDutyBps: bigint = await contract.stampDutyBps(auction.state);
+        return contract.bid(landId, bidAmount, {
+          value: bidAmount + stampDutyOn(bidAmount, stampDutyBps),
+        });
+      },
+      "Bid placed!",
+      "Failed to place bid - it may have been outbid or be below the minimum",
+    );
+  };
+
+  const settleAuction = async (landId: bigint) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.settleAuction(landId),
+      "Auction settled",
+      "Failed to settle auction",
+    );
+  };
+
+  const cancelAuction = async (landId: bigint) => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.cancelAuction(landId),
+      "Auction cancelled",
+      "Failed to cancel auction",
+    );
+  };
+
+  const withdrawFunds = async () => {
+    if (!contract) return;
+    await sendListingTransaction(
+      () => contract.withdraw(),
+      "Funds withdrawn",
+      "Failed to withdraw funds",
+    );
+  };
+
+  const attachDocument = async (
+    landId: bigint,
+    docType: string,
+    file: File,
+  ): Promise<boolean> => {
+    if (!contract) return false;
+    if (!isDocumentContentType(file.type)) {
+      showNotification("Documents must be PDFs or images", "error");
+      return false;
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      showNotification("Documents must be 10 MB or smaller", "error");
+      return false;
+    }
+
+    try {
+      setIsLoading(true);
+      setTransactionStatus("Uploading document...");
+      const document = await uploadLandDocument(contract, landId, file);
+
+      setTransactionStatus("Please confirm in MetaMask...");
+      const tx = await contract.attachDocument(
+        landId,
+        docType,
+        document.contentType,
+        document.uri,
+        document.contentHash,
+      );
+      setTransactionStatus(
+        "Transaction submitted. Waiting for confirmation...",
+      );
+      await tx.wait();
+
+      showNotification("Document attached!", "success");
+      return true;
+    } catch (error) {
+      console.error("Error attaching document:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      if (errorMessage.startsWith("Document upload failed")) {
+        showNotification(errorMessage, "error");
+      } else if (errorMessage.includes("Not the land owner or a registrar")) {
+        showNotification(
+          "Only the owner or a registrar for this state can attach documents",
+          "error",
+        );
+      } else {
+        showNotification("Failed to attach document", "error");
+      }
+      return false;
+    } finally {
+      setIsLoading(false);
+      setTransactionStatus("");
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       {/* Notification */}
@@ -440,7 +1260,9 @@ export default function Home() {
 
               <button
                 onClick={() => setIsRegistering(!isRegistering)}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                disabled={!canRegister}
+                title={registrationBlockedReason || undefined}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                   isRegistering
                     ? "bg-red-500 hover:bg-red-600 text-white"
                     : "bg-indigo-500 hover:bg-indigo-600 text-white"
@@ -450,47 +1272,213 @@ export default function Home() {
               </button>
             </div>
           ) : (
-            <button
-              onClick={connectWallet}
-              disabled={isLoading}
-              className="bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
-            >
-              {isLoading ? "Connecting..." : "Connect Wallet"}
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={startRegistering}
+                disabled={isLoading}
+                className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+              >
+                Register Land
+              </button>
+              <button
+                onClick={connectWallet}
+                disabled={isLoading}
+                className="bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isLoading ? "Connecting..." : "Connect Wallet"}
+              </button>
+            </div>
           )}
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 py-8">
+        {isUnsupportedChain && (
+          <NetworkPicker chainId={walletChainId} onSelect={switchNetwork} />
+        )}
+        {/* Registrar notice */}
+        {account && registrarRole && !canRegister && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg px-4 py-3 mb-6 text-sm">
+            🔒 {registrationBlockedReason}
+          </div>
+        )}
+
+        {account && contract && (
+          <PendingTransfers
+            transfers={pendingTransfers}
+            account={account}
+            canApprove={(state) =>
+              canRegister && (!registrarState || registrarState === state)
+            }
+            disabled={isLoading}
+            onApprove={approveTransfer}
+            onReject={rejectTransfer}
+            onRefund={refundTransfer}
+          />
+        )}
+
+        <Auctions
+          auctions={auctions}
+          account={account}
+          withdrawable={pendingWithdrawal}
+          canBid={!!contract}
+          disabled={isLoading}
+          onBid={placeBid}
+          onSettle={settleAuction}
+          onCancel={cancelAuction}
+          onWithdraw={withdrawFunds}
+        />
+
+        {account && contract && (
+          <IncomingOffers
+            offers={incomingOffers}
+            disabled={isLoading}
+            onAccept={acceptOffer}
+            onReject={rejectOffer}
+          />
+        )}
+
         {/* Registration Panel */}
-        {isRegistering && (
+        {isRegistering && canRegister && (
           <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
             <h2 className="text-xl font-bold text-gray-800 mb-4">
               Register New Land
             </h2>
             <p className="text-gray-600 mb-4">
-              Click on the map to select a location, then enter the price.
+              Click on the map to mark each corner of the parcel boundary, then
+              enter the address and price. The boundary is checked against every
+              registered land before you sign; lands whose boundary metadata
+              cannot be loaded are checked by their centre point only.
+              {registrarState &&
+                ` As a registrar for ${registrarState}, you can only register land in that state.`}
             </p>
             <div className="flex flex-wrap gap-4 items-end">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Selected Location
+                  Boundary
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    title="Boundary"
+                    type="text"
+                    readOnly
+                    value={
+                      boundaryPoints.length === 0
+                        ? "Click on map to draw"
+                        : `${boundaryPoints.length} point${
+                            boundaryPoints.length === 1 ? "" : "s"
+                          }${boundaryPoints.length < 3 ? " (need 3+)" : ""}`
+                    }
+                    className="border border-gray-300 rounded-lg px-4 py-2 bg-gray-50 w-48"
+                  />
+                  <button
+                    onClick={() =>
+                      setBoundaryPoints((points) => points.slice(0, -1))
+                    }
+                    disabled={boundaryPoints.length === 0}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => setBoundaryPoints([])}
+                    disabled={boundaryPoints.length === 0}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Survey Number
+                </label>
+                <input
+                  type="text"
+                  value={newLandSurveyNumber}
+                  onChange={(e) => setNewLandSurveyNumber(e.target.value)}
+                  placeholder="MH-PUNE-1234/5"
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-48"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Address
+                </label>
+                <input
+                  type="text"
+                  value={newLandAddress}
+                  onChange={(e) => setNewLandAddress(e.target.value)}
+                  placeholder="Plot 12, Sector 5, Pune"
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-64"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  State
+                </label>
+                <select
+                  title="State"
+                  value={newLandState}
+                  onChange={(e) => setNewLandState(e.target.value)}
+                  disabled={!!registrarState}
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-56 disabled:bg-gray-50"
+                >
+                  <option value="">Select state</option>
+                  {(registrarState ? [registrarState] : INDIAN_STATES).map(
+                    (state) => (
+                      <option key={state} value={state}>
+                        {state}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  District
                 </label>
                 <input
-                  title="Selected Location"
                   type="text"
-                  readOnly
-                  value={
-                    selectedCoords
-                      ? `Lat: ${selectedCoords[0].toFixed(
-                          4,
-                        )}, Lng: ${selectedCoords[1].toFixed(4)}`
-                      : "Click on map to select"
-                  }
-                  className="border border-gray-300 rounded-lg px-4 py-2 bg-gray-50 w-64"
+                  value={newLandDistrict}
+                  onChange={(e) => setNewLandDistrict(e.target.value)}
+                  placeholder="Pune"
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-48"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Area (sq m)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={newLandArea}
+                  onChange={(e) => setNewLandArea(e.target.value)}
+                  placeholder="5000"
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-36"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Land Type
+                </label>
+                <select
+                  title="Land Type"
+                  value={newLandType}
+                  onChange={(e) => setNewLandType(e.target.value)}
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-44 capitalize"
+                >
+                  <option value="">Select type</option>
+                  {LAND_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Price (ETH)
@@ -505,9 +1493,44 @@ export default function Home() {
                   className="border border-gray-300 rounded-lg px-4 py-2 w-40"
                 />
               </div>
+              <div className="w-full">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={newLandDescription}
+                  onChange={(e) => setNewLandDescription(e.target.value)}
+                  placeholder="Irrigated agricultural plot with road access"
+                  rows={2}
+                  className="border border-gray-300 rounded-lg px-4 py-2 w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Image (optional)
+                </label>
+                <input
+                  ref={newLandImageInput}
+                  type="file"
+                  accept="image/*"
+                  title="Parcel image"
+                  onChange={(e) => setNewLandImage(e.target.files?.[0] ?? null)}
+                  className="text-sm text-gray-600"
+                />
+              </div>
               <button
                 onClick={registerLand}
-                disabled={isLoading || !selectedCoords || !newLandPrice}
+                disabled={
+                  isLoading ||
+                  boundaryPoints.length < 3 ||
+                  !newLandSurveyNumber.trim() ||
+                  !newLandAddress.trim() ||
+                  !(Number(newLandPrice) > 0) ||
+                  !newLandState ||
+                  !newLandDistrict.trim() ||
+                  !newLandArea ||
+                  !newLandType
+                }
                 className="bg-green-500 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? "Registering..." : "Register Land"}
@@ -518,29 +1541,103 @@ export default function Home() {
 
         {/* Map */}
         <div className="bg-white rounded-lg shadow-lg p-4 mb-6">
+          {landReader && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                searchBySurveyNumber();
+              }}
+              className="flex gap-2 mb-4"
+            >
+              <input
+                type="search"
+                value={surveySearch}
+                onChange={(e) => setSurveySearch(e.target.value)}
+                placeholder="Search by survey number, e.g. GOV-MH-001"
+                className="border border-gray-300 rounded-lg px-4 py-2 flex-1"
+              />
+              <button
+                type="submit"
+                disabled={!surveySearch.trim()}
+                className="bg-indigo-500 hover:bg-indigo-600 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                Find
+              </button>
+            </form>
+          )}
           <Map
-            lands={lands}
+            lands={visibleLands}
+            hasMoreLands={hasMoreLands}
+            onLoadMoreLands={loadMoreLands}
             onBuyLand={buyLand}
+            onListLand={listLand}
+            onDelistLand={delistLand}
+            onUpdatePrice={updateLandPrice}
+            account={account}
+            pendingLandIds={pendingLandIds}
+            auctionLandIds={auctionLandIds}
             onMapClick={handleMapClick}
             isRegistering={isRegistering}
-            selectedCoords={selectedCoords}
+            boundaryPoints={boundaryPoints}
+            focusedLand={focusedLand}
           />
         </div>
 
         {/* Land Listings */}
         <div className="bg-white rounded-lg shadow-lg p-6">
-          <h2 className="text-xl font-bold text-gray-800 mb-4">
-            Available Lands ({lands.filter((l) => l.isForSale).length})
-          </h2>
-          {lands.length === 0 ? (
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <h2 className="text-xl font-bold text-gray-800">
+              {LAND_VIEW_TITLES[landView]} ({totalLands})
+            </h2>
+            {landReader && (
+              <div className="flex gap-2">
+                {(Object.keys(LAND_VIEW_TITLES) as LandView[])
+                  .filter((view) => account || view !== "mine")
+                  .map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => changeLandView(view)}
+                      className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                        landView === view
+                          ? "bg-indigo-500 text-white"
+                          : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                      }`}
+                    >
+                      {LAND_VIEW_LABELS[view]}
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
+          {(lands.length > 0 || isFiltered) && (
+            <LandFilterBar filters={filters} onChange={updateFilters} />
+          )}
+          {isFiltered && lands.length > 0 && (
+            <p className="text-xs text-gray-500 mb-3">
+              {hasMoreLands
+                ? `${visibleLands.length} matches so far - searching ${lands.length} of ${totalLands} lands...`
+                : `${visibleLands.length} of ${totalLands} lands match`}
+            </p>
+          )}
+          {lands.length > 0 && visibleLands.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              {hasMoreLands
+                ? "Searching more lands..."
+                : "No lands match these filters."}
+            </p>
+          ) : lands.length === 0 ? (
             <p className="text-gray-500 text-center py-8">
-              {account
-                ? "No lands registered yet. Be the first to register!"
-                : "Connect your wallet to view and interact with lands."}
+              {!landReader
+                ? "Connect your wallet to view and interact with lands."
+                : landView === "forSale"
+                  ? "No lands are for sale right now."
+                  : landView === "mine"
+                    ? "You don't own any land yet."
+                    : "No lands registered yet. Be the first to register!"}
             </p>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {lands.map((land) => (
+              {visibleLands.map((land) => (
                 <div
                   key={land.id.toString()}
                   className={`border rounded-lg p-4 ${
@@ -551,47 +1648,125 @@ export default function Home() {
                 >
                   <div className="flex justify-between items-start mb-2">
                     <h3 className="font-bold text-lg">
-                      Land #{land.id.toString()}
+                      <Link
+                        href={`/lands/${land.id}`}
+                        className="hover:text-indigo-600 hover:underline"
+                      >
+                        Land #{land.id.toString()}
+                      </Link>
                     </h3>
                     <span
                       className={`text-xs px-2 py-1 rounded-full ${
-                        land.isForSale
-                          ? "bg-green-200 text-green-800"
-                          : "bg-gray-200 text-gray-600"
+                        pendingLandIds.has(land.id)
+                          ? "bg-amber-200 text-amber-800"
+                          : auctionLandIds.has(land.id)
+                            ? "bg-purple-200 text-purple-800"
+                            : land.isForSale
+                              ? "bg-green-200 text-green-800"
+                              : "bg-gray-200 text-gray-600"
                       }`}
                     >
-                      {land.isForSale ? "For Sale" : "Sold"}
+                      {pendingLandIds.has(land.id)
+                        ? "Transfer Pending"
+                        : auctionLandIds.has(land.id)
+                          ? "On Auction"
+                          : land.isForSale
+                            ? "For Sale"
+                            : "Sold"}
                     </span>
                   </div>
+                  <p className="text-xs text-gray-500 mb-1">
+                    Survey No. {land.surveyNumber}
+                  </p>
                   <p className="text-sm text-gray-600 mb-2">
                     📍 {land.location}
                   </p>
+                  <LienBadge activeLiens={land.activeLiens} />
+                  <LandMetadataDetails metadata={land.metadata} />
                   <p className="text-lg font-semibold text-indigo-600 mb-2">
                     💰 {formatEther(land.price)} ETH
                   </p>
                   <p className="text-xs text-gray-500 mb-3">
-                    Owner: {land.seller.slice(0, 6)}...{land.seller.slice(-4)}
+                    Owner: {land.owner.slice(0, 6)}...{land.owner.slice(-4)}
                   </p>
+                  {land.isForSale && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      {formatMarketSince(land.listedAt)}
+                    </p>
+                  )}
                   {land.isForSale &&
-                    account &&
-                    land.seller.toLowerCase() !== account.toLowerCase() && (
+                    land.owner.toLowerCase() !== account?.toLowerCase() && (
                       <button
                         onClick={() => buyLand(land.id)}
-                        disabled={isLoading}
+                        disabled={isLoading || land.activeLiens > BigInt(0)}
                         className="w-full bg-green-500 hover:bg-green-600 text-white py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
                       >
-                        {isLoading ? "Processing..." : "Buy Now"}
+                        {land.activeLiens > BigInt(0)
+                          ? "Under lien - cannot be bought"
+                          : isLoading
+                            ? "Processing..."
+                            : "Buy Now"}
                       </button>
                     )}
-                  {land.seller.toLowerCase() === account?.toLowerCase() && (
-                    <span className="block text-center text-indigo-600 font-medium py-2">
-                      You own this land
-                    </span>
+                  {land.owner.toLowerCase() === account?.toLowerCase() && (
+                    <>
+                      <span className="block text-center text-indigo-600 font-medium py-2">
+                        You own this land
+                      </span>
+                      <ListingControls
+                        landId={land.id}
+                        price={land.price}
+                        isForSale={land.isForSale}
+                        disabled={
+                          isLoading ||
+                          pendingLandIds.has(land.id) ||
+                          auctionLandIds.has(land.id) ||
+                          land.activeLiens > BigInt(0)
+                        }
+                        onListLand={listLand}
+                        onDelistLand={delistLand}
+                        onUpdatePrice={updateLandPrice}
+                      />
+                    </>
                   )}
+                  <LandOffers
+                    contract={landReader}
+                    land={land}
+                    account={account}
+                    disabled={isLoading}
+                    {...(contract && {
+                      onMakeOffer: makeOffer,
+                      onWithdrawOffer: withdrawOffer,
+                      onAcceptOffer: acceptOffer,
+                      onRejectOffer: rejectOffer,
+                      onCounterOffer: counterOffer,
+                      onAcceptCounterOffer: acceptCounterOffer,
+                    })}
+                  />
+                  <LandDocuments
+                    contract={landReader}
+                    landId={land.id}
+                    canAttach={canAttachDocuments(land)}
+                    disabled={isLoading}
+                    onAttachDocument={attachDocument}
+                  />
                 </div>
               ))}
             </div>
           )}
+          {hasMoreLands && (
+            <div ref={loadMoreRef} className="text-center pt-6">
+              <button
+                onClick={loadMoreLands}
+                disabled={isLoadingMore}
+                className="text-indigo-600 hover:text-indigo-800 text-sm font-medium disabled:opacity-50"
+              >
+                {isLoadingMore
+                  ? "Loading more lands..."
+                  : `Load more (${lands.length} of ${totalLands})`}
+              </button>
+            </div>
+          )}
         </div>
       </main>
 
@@ -599,13 +1774,25 @@ export default function Home() {
       <footer className="bg-white border-t mt-12">
         <div className="max-w-7xl mx-auto px-4 py-6 text-center text-gray-500 text-sm">
           <p>Land Registry DApp - Built with Next.js, Solidity & Hardhat</p>
-          <p className="mt-1">
-            Contract: {contractConfig.address.slice(0, 10)}...
-            {contractConfig.address.slice(-8)}
-          </p>
+          {activeDeployment && (
+            <p className="mt-1">
+              {networkName(activeDeployment)} contract:{" "}
+              {activeDeployment.address.slice(0, 10)}...
+              {activeDeployment.address.slice(-8)}
+            </p>
+          )}
         </div>
       </footer>
 
+      {pendingPurchase && (
+        <BuyConfirmation
+          land={pendingPurchase.land}
+          quote={pendingPurchase.quote}
+          onConfirm={confirmPurchase}
+          onCancel={() => setPendingPurchase(null)}
+        />
+      )}
+
       {/* Loading Overlay */}
       {isLoading && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -631,3 +1818,12 @@ export default function Home() {
     </div>
   );
 }
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function Home() {
+  return (
+    <Suspense>
+      <LandRegistryApp />
+    </Suspense>
+  );
+}
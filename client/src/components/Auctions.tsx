@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ZeroAddress, formatEther } from "ethers";
+import { LandAuction, hasEnded, minimumBid } from "../utils/auctions";
+
+interface AuctionsProps {
+  auctions: LandAuction[];
+  account: string | null;
+  // Outbid deposits, and sale proceeds or escrow refunds the account's wallet
+  // did not accept
+  withdrawable: bigint;
+  // False until a wallet on a supported network is connected
+  canBid: boolean;
+  disabled?: boolean;
+  onBid: (landId: bigint, amount: string) => Promise<boolean>;
+  onSettle: (landId: bigint) => void;
+  onCancel: (landId: bigint) => void;
+  onWithdraw: () => void;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatCountdown(endTime: bigint, now: number): string {
+  const seconds = Math.max(0, Math.floor(Number(endTime) - now / 1000));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${days > 0 ? `${days}d ` : ""}${pad(hours)}:${pad(minutes)}:${pad(
+    seconds % 60,
+  )}`;
+}
+
+export default function Auctions({
+  auctions,
+  account,
+  withdrawable,
+  canBid,
+  disabled,
+  onBid,
+  onSettle,
+  onCancel,
+  onWithdraw,
+}: AuctionsProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [bidAmounts, setBidAmounts] = useState<Record<string, string>>({});
+
+  // Ticks the countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (auctions.length === 0 && withdrawable === BigInt(0)) return null;
+
+  const isAccount = (address: string) =>
+    !!account && address.toLowerCase() === account.toLowerCase();
+
+  const placeBid = async (auction: LandAuction) => {
+    const key = auction.landId.toString();
+    if (await onBid(auction.landId, bidAmounts[key])) {
+      setBidAmounts((current) => ({ ...current, [key]: "" }));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-1">🔨 Auctions</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Each bid deposits its amount plus stamp duty. Outbid deposits can be
+        withdrawn at any time, as can sale proceeds or escrow refunds your
+        wallet did not accept. Bids in the last 10 minutes extend the auction by
+        10 minutes.
+      </p>
+
+      {withdrawable > BigInt(0) && (
+        <div className="flex flex-wrap justify-between items-center gap-2 bg-indigo-50 rounded-lg p-3 mb-4 text-sm">
+          <span className="text-indigo-800">
+            {formatEther(withdrawable)} ETH from outbid deposits, sale proceeds
+            or escrow refunds is ready to withdraw.
+          </span>
+          <button
+            onClick={onWithdraw}
+            disabled={disabled}
+            className="bg-indigo-500 hover:bg-indigo-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Withdraw
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {auctions.map((auction) => {
+          const key = auction.landId.toString();
+          const ended = hasEnded(auction, now);
+          const hasBids = auction.highestBidder !== ZeroAddress;
+          const isSeller = isAccount(auction.seller);
+          return (
+            <div
+              key={key}
+              className="border border-purple-200 bg-purple-50 rounded-lg p-4 text-sm"
+            >
+              <div className="flex justify-between items-start mb-1">
+                <Link
+                  href={`/lands/${auction.landId}`}
+                  className="font-bold text-lg hover:text-indigo-600 hover:underline"
+                >
+                  Land #{key}
+                </Link>
+                <span
+                  className={`font-mono px-2 py-1 rounded-full text-xs ${
+                    ended
+                      ? "bg-gray-200 text-gray-600"
+                      : "bg-purple-200 text-purple-800"
+                  }`}
+                >
+                  {ended ? "Ended" : formatCountdown(auction.endTime, now)}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">
+                Survey No. {auction.surveyNumber} · {auction.location},{" "}
+                {auction.state}
+              </p>
+              <p className="text-lg font-semibold text-indigo-600 mt-2">
+                {hasBids
+                  ? `${formatEther(auction.highestBid)} ETH`
+                  : "No bids yet"}
+              </p>
+              <p className="text-xs text-gray-500 mb-2">
+                Reserve {formatEther(auction.reservePrice)} ETH · min. increment{" "}
+                {formatEther(auction.minIncrement)} ETH
+                {hasBids && isAccount(auction.highestBidder) && (
+                  <span className="text-green-700 font-medium">
+                    {" "}
+                    · you are the highest bidder
+                  </span>
+                )}
+              </p>
+
+              {ended ? (
+                <button
+                  onClick={() => onSettle(auction.landId)}
+                  disabled={disabled || !canBid}
+                  className="w-full bg-purple-500 hover:bg-purple-600 text-white py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {hasBids ? "Settle & transfer" : "Close auction"}
+                </button>
+              ) : isSeller ? (
+                !hasBids && (
+                  <button
+                    onClick={() => onCancel(auction.landId)}
+                    disabled={disabled}
+                    className="w-full border border-red-300 text-red-600 hover:bg-red-50 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    Cancel auction
+                  </button>
+                )
+              ) : canBid ? (
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder={`${formatEther(minimumBid(auction))} or more`}
+                    value={bidAmounts[key] ?? ""}
+                    onChange={(e) =>
+                      setBidAmounts((current) => ({
+                        ...current,
+                        [key]: e.target.value,
+                      }))
+                    }
+                    className="border border-gray-300 rounded-lg px-2 py-1 flex-1 min-w-0"
+                  />
+                  <button
+                    onClick={() => placeBid(auction)}
+                    disabled={disabled || !bidAmounts[key]}
+                    className="bg-purple-500 hover:bg-purple-600 text-white px-4 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    Bid
+                  </button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 italic">
+                  Connect your wallet to bid.
+                </p>
+              )}
+
+              <h3 className="text-xs font-semibold text-gray-700 mt-3 mb-1">
+                Bid history
+              </h3>
+              {auction.bids.length === 0 ? (
+                <p className="text-xs text-gray-400 italic">No bids yet</p>
+              ) : (
+                <ul className="text-xs space-y-1 max-h-32 overflow-y-auto">
+                  {auction.bids.map((bid) => (
+                    <li
+                      key={bid.transactionHash}
+                      className="flex justify-between text-gray-600"
+                    >
+                      <span>
+                        {isAccount(bid.bidder)
+                          ? "You"
+                          : shortAddress(bid.bidder)}
+                      </span>
+                      <span>
+                        {formatEther(bid.amount)} ETH · block {bid.blockNumber}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { formatEther } from "ethers";
+import { Land, PurchaseQuote } from "../utils/lands";
+
+interface BuyConfirmationProps {
+  land: Land;
+  quote: PurchaseQuote;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function formatPeriod(seconds: bigint): string {
+  const hours = Number(seconds) / 3600;
+  if (hours >= 48) return `${Math.round(hours / 24)} days`;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+export default function BuyConfirmation({
+  land,
+  quote,
+  onConfirm,
+  onCancel,
+}: BuyConfirmationProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+        <h2 className="text-xl font-bold text-gray-800 mb-1">
+          Buy Land #{land.id.toString()}
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Survey No. {land.surveyNumber} · {land.location}, {land.state}
+        </p>
+
+        <dl className="text-sm space-y-2 mb-4">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Price (to the seller)</dt>
+            <dd>{formatEther(quote.price)} ETH</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">
+              Stamp duty ({Number(quote.stampDutyBps) / 100}%, {land.state})
+            </dt>
+            <dd>{formatEther(quote.stampDuty)} ETH</dd>
+          </div>
+          <div className="flex justify-between border-t pt-2 font-semibold">
+            <dt>Total</dt>
+            <dd>{formatEther(quote.total)} ETH</dd>
+          </div>
+        </dl>
+        <p className="text-xs text-gray-400 mb-4">
+          Stamp duty goes to the government treasury. If the price drops before
+          your transaction is mined, the difference is refunded.
+        </p>
+        {quote.escrowPeriod > BigInt(0) && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2 mb-4">
+            Your payment is held in escrow until a registrar for {land.state}{" "}
+            approves the transfer. If it is rejected, or not decided within{" "}
+            {formatPeriod(quote.escrowPeriod)}, you get the full amount back.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 border border-gray-300 hover:bg-gray-100 text-gray-700 py-2 rounded-lg font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="flex-1 bg-green-500 hover:bg-green-600 text-white py-2 rounded-lg font-medium transition-colors"
+          >
+            Confirm Purchase
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { formatEther } from "ethers";
+import { IncomingOffer } from "../utils/offers";
+
+interface IncomingOffersProps {
+  offers: IncomingOffer[];
+  disabled?: boolean;
+  onAccept: (landId: bigint, index: number) => void;
+  onReject: (landId: bigint, index: number) => void;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export default function IncomingOffers({
+  offers,
+  disabled,
+  onAccept,
+  onReject,
+}: IncomingOffersProps) {
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-1">
+        🤝 Incoming Offers
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Open offers on your parcels. Buyers&apos; funds are already held by the
+        contract; counter an offer from the parcel&apos;s Offers section.
+      </p>
+      <ul className="space-y-3">
+        {offers.map((offer) => (
+          <li
+            key={`${offer.landId}-${offer.index}`}
+            className="border border-gray-200 rounded-lg p-3 text-sm flex justify-between items-start gap-2"
+          >
+            <div>
+              <p className="font-medium text-gray-800">
+                Land #{offer.landId.toString()} · Survey No.{" "}
+                {offer.surveyNumber} · {offer.state}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatEther(offer.price)} ETH from {shortAddress(offer.buyer)}
+                {offer.counterPrice > BigInt(0) &&
+                  ` · you countered at ${formatEther(offer.counterPrice)} ETH`}
+              </p>
+              <p className="text-xs text-gray-500">
+                Expires{" "}
+                {new Date(Number(offer.expiresAt) * 1000).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onAccept(offer.landId, offer.index)}
+                disabled={disabled}
+                className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => onReject(offer.landId, offer.index)}
+                disabled={disabled}
+                className="border border-red-300 text-red-600 hover:bg-red-50 px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                Reject
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
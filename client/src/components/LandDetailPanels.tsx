@@ -0,0 +1,55 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import LandDocuments from "./LandDocuments";
+import LandOffers from "./LandOffers";
+import { LandDocument } from "../utils/landDocuments";
+import { Land } from "../utils/lands";
+import { LandOffer } from "../utils/offers";
+import { getReadOnlyContract } from "../utils/readProvider";
+
+// Client-side pieces of the server-rendered /lands/[id] page
+
+export const LandDetailMap = dynamic(() => import("./LandLocationMap"), {
+  ssr: false,
+  loading: () => (
+    <div className="w-full h-[360px] bg-gray-200 animate-pulse rounded-lg flex items-center justify-center">
+      <span className="text-gray-500">Loading map...</span>
+    </div>
+  ),
+});
+
+// Read-only: documents are attached from the main page with a wallet
+export function LandDetailDocuments({
+  landId,
+  documents,
+}: {
+  landId: bigint;
+  documents: LandDocument[];
+}) {
+  return (
+    <LandDocuments
+      contract={getReadOnlyContract()}
+      landId={landId}
+      canAttach={false}
+      initialDocuments={documents}
+    />
+  );
+}
+
+// Read-only: offers are made and answered from the main page with a wallet
+export function LandDetailOffers({
+  land,
+  offers,
+}: {
+  land: Pick<Land, "id" | "owner" | "state">;
+  offers: LandOffer[];
+}) {
+  return (
+    <LandOffers
+      contract={getReadOnlyContract()}
+      land={land}
+      initialOffers={offers}
+    />
+  );
+}
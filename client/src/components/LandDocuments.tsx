@@ -0,0 +1,215 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Contract } from "ethers";
+import {
+  DOCUMENT_ACCEPT,
+  DOCUMENT_TYPES,
+  LandDocument,
+  downloadDocument,
+  fetchLandDocuments,
+} from "../utils/landDocuments";
+
+interface LandDocumentsProps {
+  contract: Contract | null;
+  landId: bigint;
+  // Owner or a registrar for the parcel's state
+  canAttach: boolean;
+  disabled?: boolean;
+  onAttachDocument?: (
+    id: bigint,
+    docType: string,
+    file: File,
+  ) => Promise<boolean>;
+  // Already loaded (e.g. server-side); the list then starts open
+  initialDocuments?: LandDocument[];
+}
+
+type Verification = "checking" | "verified" | "mismatch" | "failed";
+
+const VERIFICATION_LABELS: Record<Verification, string> = {
+  checking: "Verifying...",
+  verified: "✅ Hash verified",
+  mismatch: "❌ Does not match the recorded hash",
+  failed: "⚠️ Download failed",
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+function saveBlob(content: Blob, fileName: string) {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function LandDocuments({
+  contract,
+  landId,
+  canAttach,
+  disabled,
+  onAttachDocument,
+  initialDocuments,
+}: LandDocumentsProps) {
+  const [isOpen, setIsOpen] = useState(!!initialDocuments);
+  const [documents, setDocuments] = useState<LandDocument[] | null>(
+    initialDocuments ?? null,
+  );
+  const [verifications, setVerifications] = useState<
+    Record<number, Verification>
+  >({});
+  const [docType, setDocType] = useState("sale-deed");
+  const [file, setFile] = useState<File | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadDocuments = async () => {
+    if (!contract) return;
+    try {
+      setDocuments(await fetchLandDocuments(contract, landId));
+    } catch (error) {
+      console.error("Error loading documents:", error);
+      setDocuments([]);
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen && documents === null) loadDocuments();
+    setIsOpen(!isOpen);
+  };
+
+  // Only saves the file once its hash matches the one on chain
+  const download = async (landDocument: LandDocument, index: number) => {
+    setVerifications((current) => ({ ...current, [index]: "checking" }));
+    try {
+      const { content, verified } = await downloadDocument(landDocument);
+      setVerifications((current) => ({
+        ...current,
+        [index]: verified ? "verified" : "mismatch",
+      }));
+      if (verified) {
+        const extension = FILE_EXTENSIONS[landDocument.contentType] ?? "bin";
+        saveBlob(
+          content,
+          `land-${landId}-${landDocument.docType}-${index}.${extension}`,
+        );
+      }
+    } catch (error) {
+      console.error("Error downloading document:", error);
+      setVerifications((current) => ({ ...current, [index]: "failed" }));
+    }
+  };
+
+  const attach = async () => {
+    if (!file || !onAttachDocument) return;
+    if (await onAttachDocument(landId, docType, file)) {
+      setFile(null);
+      if (fileInput.current) fileInput.current.value = "";
+      await loadDocuments();
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 mt-3 pt-2">
+      <button
+        onClick={toggle}
+        className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+      >
+        📄 Documents {isOpen ? "▲" : "▼"}
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {documents === null ? (
+            <p className="text-xs text-gray-400">Loading documents...</p>
+          ) : documents.length === 0 ? (
+            <p className="text-xs text-gray-400 italic">
+              No documents attached
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {documents.map((landDocument, index) => (
+                <li key={index} className="text-xs">
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="font-medium text-gray-700">
+                      {DOCUMENT_TYPES[landDocument.docType] ??
+                        landDocument.docType}
+                    </span>
+                    <button
+                      onClick={() => download(landDocument, index)}
+                      disabled={verifications[index] === "checking"}
+                      className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                    >
+                      Download
+                    </button>
+                  </div>
+                  <p className="text-gray-400">
+                    {new Date(
+                      Number(landDocument.addedAt) * 1000,
+                    ).toLocaleDateString()}{" "}
+                    by {landDocument.addedBy.slice(0, 6)}...
+                    {landDocument.addedBy.slice(-4)}
+                  </p>
+                  <p
+                    className="text-gray-400 font-mono truncate"
+                    title={landDocument.contentHash}
+                  >
+                    SHA-256 {landDocument.contentHash}
+                  </p>
+                  {verifications[index] && (
+                    <p
+                      className={
+                        verifications[index] === "verified"
+                          ? "text-green-600"
+                          : "text-red-600"
+                      }
+                    >
+                      {VERIFICATION_LABELS[verifications[index]]}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canAttach && (
+            <div className="space-y-2 pt-1">
+              <select
+                title="Document type"
+                value={docType}
+                onChange={(e) => setDocType(e.target.value)}
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm w-full"
+              >
+                {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                ref={fileInput}
+                type="file"
+                accept={DOCUMENT_ACCEPT}
+                title="Document file"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="text-xs text-gray-600 w-full"
+              />
+              <button
+                onClick={attach}
+                disabled={disabled || !file}
+                className="w-full bg-indigo-500 hover:bg-indigo-600 text-white py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                Attach Document
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
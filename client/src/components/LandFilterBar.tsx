@@ -0,0 +1,112 @@
+"use client";
+
+import { INDIAN_STATES } from "../utils/indianStates";
+import { LAND_TYPES } from "../utils/landMetadata";
+import {
+  DEFAULT_LAND_FILTERS,
+  LAND_SORT_LABELS,
+  LandFilters,
+  LandSort,
+  hasActiveLandFilters,
+} from "../utils/landFilters";
+
+interface LandFilterBarProps {
+  filters: LandFilters;
+  onChange: (changes: Partial<LandFilters>) => void;
+}
+
+const inputClassName =
+  "border border-gray-300 rounded-lg px-3 py-1 text-sm bg-white";
+
+export default function LandFilterBar({
+  filters,
+  onChange,
+}: LandFilterBarProps) {
+  const canClear =
+    hasActiveLandFilters(filters) || filters.sort !== DEFAULT_LAND_FILTERS.sort;
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center mb-4">
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(e) => onChange({ query: e.target.value })}
+        placeholder="Search location or survey number"
+        className={`${inputClassName} flex-1 min-w-[200px]`}
+      />
+      <select
+        title="State"
+        value={filters.state}
+        onChange={(e) => onChange({ state: e.target.value })}
+        className={inputClassName}
+      >
+        <option value="">All states</option>
+        {INDIAN_STATES.map((state) => (
+          <option key={state} value={state}>
+            {state}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={filters.district}
+        onChange={(e) => onChange({ district: e.target.value })}
+        placeholder="District"
+        className={`${inputClassName} w-32`}
+      />
+      <select
+        title="Land type"
+        value={filters.landType}
+        onChange={(e) => onChange({ landType: e.target.value })}
+        className={`${inputClassName} capitalize`}
+      >
+        <option value="">All types</option>
+        {LAND_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {type}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        step="0.01"
+        min="0"
+        value={filters.minPrice}
+        onChange={(e) => onChange({ minPrice: e.target.value })}
+        placeholder="Min ETH"
+        className={`${inputClassName} w-24`}
+      />
+      <input
+        type="number"
+        step="0.01"
+        min="0"
+        value={filters.maxPrice}
+        onChange={(e) => onChange({ maxPrice: e.target.value })}
+        placeholder="Max ETH"
+        className={`${inputClassName} w-24`}
+      />
+      <select
+        title="Sort by"
+        value={filters.sort}
+        onChange={(e) => onChange({ sort: e.target.value as LandSort })}
+        className={inputClassName}
+      >
+        {(Object.keys(LAND_SORT_LABELS) as LandSort[]).map((sort) => (
+          <option key={sort} value={sort}>
+            {LAND_SORT_LABELS[sort]}
+          </option>
+        ))}
+      </select>
+      {canClear && (
+        <button
+          onClick={() =>
+            onChange({ ...DEFAULT_LAND_FILTERS, view: filters.view })
+          }
+          className="text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
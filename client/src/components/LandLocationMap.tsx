@@ -0,0 +1,56 @@
+"use client";
+
+import { MapContainer, TileLayer, Marker, Polygon } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Coordinates } from "../utils/coordinates";
+import { PolygonGeometry, polygonToLatLngs } from "../utils/geometry";
+import { landMarkerIcon, landTypeOf } from "./landMarkers";
+
+interface LandLocationMapProps {
+  coordinates: Coordinates;
+  boundary?: PolygonGeometry;
+  landType?: unknown;
+  isForSale: boolean;
+}
+
+// One parcel, zoomed in on its boundary; no popups or controls beyond zoom
+export default function LandLocationMap({
+  coordinates,
+  boundary,
+  landType,
+  isForSale,
+}: LandLocationMapProps) {
+  const positions = boundary ? polygonToLatLngs(boundary) : null;
+
+  return (
+    <MapContainer
+      center={[coordinates.lat, coordinates.lng]}
+      zoom={16}
+      bounds={positions ?? undefined}
+      boundsOptions={{ padding: [40, 40] }}
+      className="w-full h-[360px] rounded-lg shadow z-0"
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      {positions && (
+        <Polygon
+          positions={positions}
+          pathOptions={{
+            color: isForSale ? "#16a34a" : "#6b7280",
+            weight: 2,
+            fillOpacity: 0.2,
+          }}
+        />
+      )}
+      <Marker
+        position={[coordinates.lat, coordinates.lng]}
+        icon={landMarkerIcon(
+          landTypeOf(landType),
+          isForSale ? "forSale" : "sold",
+        )}
+      />
+    </MapContainer>
+  );
+}
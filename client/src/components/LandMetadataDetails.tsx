@@ -0,0 +1,70 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { LandMetadata, resolveTokenURI } from "../utils/landMetadata";
+
+interface LandMetadataDetailsProps {
+  // null when the metadata could not be fetched
+  metadata?: LandMetadata | null;
+  compact?: boolean;
+}
+
+// Shown from live contract state instead, since they can change after minting
+const ON_CHAIN_TRAITS = new Set(["Survey Number", "Price (ETH)", "Owner"]);
+
+export default function LandMetadataDetails({
+  metadata,
+  compact,
+}: LandMetadataDetailsProps) {
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (metadata === null) {
+    return (
+      <p className="text-xs text-gray-400 italic mb-2">
+        Parcel details unavailable
+      </p>
+    );
+  }
+  if (!metadata) return null;
+
+  const attributes = (metadata.attributes ?? []).filter(
+    (attribute) => !ON_CHAIN_TRAITS.has(attribute.trait_type),
+  );
+
+  return (
+    <div className="mb-2">
+      {metadata.image && !imageFailed && (
+        // Images come from arbitrary gateways, which next/image would need listed up front
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={resolveTokenURI(metadata.image)}
+          alt={metadata.name}
+          loading="lazy"
+          onError={() => setImageFailed(true)}
+          className={`w-full object-cover rounded-md mb-2 ${
+            compact ? "h-24" : "h-36"
+          }`}
+        />
+      )}
+      {metadata.description && (
+        <p
+          className={`text-gray-600 mb-2 ${
+            compact ? "text-xs line-clamp-3" : "text-sm"
+          }`}
+        >
+          {metadata.description}
+        </p>
+      )}
+      {attributes.length > 0 && (
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+          {attributes.map((attribute) => (
+            <Fragment key={attribute.trait_type}>
+              <dt className="text-gray-500">{attribute.trait_type}</dt>
+              <dd className="text-gray-800 font-medium">{attribute.value}</dd>
+            </Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
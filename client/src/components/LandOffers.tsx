@@ -0,0 +1,305 @@
+"use client";
+
+import { useState } from "react";
+import { Contract, formatEther } from "ethers";
+import { Land } from "../utils/lands";
+import {
+  LandOffer,
+  activeCounter,
+  fetchLandOffers,
+  isOfferOpen,
+} from "../utils/offers";
+
+const EXPIRY_DAYS = [1, 3, 7, 14];
+
+interface LandOffersProps {
+  contract: Contract | null;
+  land: Pick<Land, "id" | "owner" | "state">;
+  account?: string | null;
+  disabled?: boolean;
+  // Without handlers the list is read-only
+  onMakeOffer?: (
+    landId: bigint,
+    price: string,
+    days: number,
+  ) => Promise<boolean>;
+  onWithdrawOffer?: (landId: bigint, index: number) => Promise<boolean>;
+  onAcceptOffer?: (landId: bigint, index: number) => Promise<boolean>;
+  onRejectOffer?: (landId: bigint, index: number) => Promise<boolean>;
+  onCounterOffer?: (
+    landId: bigint,
+    index: number,
+    price: string,
+  ) => Promise<boolean>;
+  onAcceptCounterOffer?: (landId: bigint, offer: LandOffer) => Promise<boolean>;
+  // Already loaded (e.g. server-side); the list then starts open
+  initialOffers?: LandOffer[];
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function describeOffer(offer: LandOffer): string {
+  if (offer.status !== "Open") return offer.status;
+  const expiry = new Date(Number(offer.expiresAt) * 1000).toLocaleString();
+  return isOfferOpen(offer) ? `Open until ${expiry}` : `Expired ${expiry}`;
+}
+
+export default function LandOffers({
+  contract,
+  land,
+  account,
+  disabled,
+  onMakeOffer,
+  onWithdrawOffer,
+  onAcceptOffer,
+  onRejectOffer,
+  onCounterOffer,
+  onAcceptCounterOffer,
+  initialOffers,
+}: LandOffersProps) {
+  const [isOpen, setIsOpen] = useState(!!initialOffers);
+  const [offers, setOffers] = useState<LandOffer[] | null>(
+    initialOffers ?? null,
+  );
+  const [offerPrice, setOfferPrice] = useState("");
+  const [expiryDays, setExpiryDays] = useState(EXPIRY_DAYS[2]);
+  const [countering, setCountering] = useState<number | null>(null);
+  const [counterPrice, setCounterPrice] = useState("");
+
+  const isAccount = (address: string) =>
+    !!account && address.toLowerCase() === account.toLowerCase();
+  const isOwner = isAccount(land.owner);
+
+  const loadOffers = async () => {
+    if (!contract) return;
+    try {
+      setOffers(await fetchLandOffers(contract, land.id));
+    } catch (error) {
+      console.error("Error loading offers:", error);
+      setOffers([]);
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen && offers === null) loadOffers();
+    setIsOpen(!isOpen);
+  };
+
+  // Reloads the list once the transaction went through
+  const run = async (action?: () => Promise<boolean>) => {
+    if (action && (await action())) await loadOffers();
+  };
+
+  const placeOffer = () =>
+    run(async () => {
+      const placed =
+        !!onMakeOffer && (await onMakeOffer(land.id, offerPrice, expiryDays));
+      if (placed) setOfferPrice("");
+      return placed;
+    });
+
+  const submitCounter = (index: number) =>
+    run(async () => {
+      const countered =
+        !!onCounterOffer &&
+        (await onCounterOffer(land.id, index, counterPrice));
+      if (countered) {
+        setCountering(null);
+        setCounterPrice("");
+      }
+      return countered;
+    });
+
+  const ownerActions = (offer: LandOffer) =>
+    countering === offer.index ? (
+      <div className="flex gap-2 mt-1">
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Counter (ETH)"
+          value={counterPrice}
+          onChange={(e) => setCounterPrice(e.target.value)}
+          className="border border-gray-300 rounded-lg px-2 py-1 text-xs flex-1 min-w-0"
+        />
+        <button
+          onClick={() => submitCounter(offer.index)}
+          disabled={disabled || !counterPrice}
+          className="bg-indigo-500 hover:bg-indigo-600 text-white px-2 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+        <button
+          onClick={() => setCountering(null)}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    ) : (
+      <div className="flex gap-2 mt-1">
+        <button
+          onClick={() =>
+            run(onAcceptOffer && (() => onAcceptOffer(land.id, offer.index)))
+          }
+          disabled={disabled}
+          className="bg-green-500 hover:bg-green-600 text-white px-2 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          Accept
+        </button>
+        <button
+          onClick={() => setCountering(offer.index)}
+          disabled={disabled}
+          className="border border-indigo-300 text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          Counter
+        </button>
+        <button
+          onClick={() =>
+            run(onRejectOffer && (() => onRejectOffer(land.id, offer.index)))
+          }
+          disabled={disabled}
+          className="border border-red-300 text-red-600 hover:bg-red-50 px-2 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          Reject
+        </button>
+      </div>
+    );
+
+  const buyerActions = (offer: LandOffer) => {
+    const counter = activeCounter(offer, land.owner);
+    return (
+      <div className="flex gap-2 mt-1">
+        {counter !== null && isOfferOpen(offer) && (
+          <button
+            onClick={() =>
+              run(
+                onAcceptCounterOffer &&
+                  (() => onAcceptCounterOffer(land.id, offer)),
+              )
+            }
+            disabled={disabled}
+            className="bg-green-500 hover:bg-green-600 text-white px-2 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Accept {formatEther(counter)} ETH
+          </button>
+        )}
+        <button
+          onClick={() =>
+            run(
+              onWithdrawOffer && (() => onWithdrawOffer(land.id, offer.index)),
+            )
+          }
+          disabled={disabled}
+          className="border border-gray-300 text-gray-700 hover:bg-gray-100 px-2 py-1 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          {isOfferOpen(offer) ? "Withdraw" : "Reclaim deposit"}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 mt-3 pt-2">
+      <button
+        onClick={toggle}
+        className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+      >
+        🤝 Offers {isOpen ? "▲" : "▼"}
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {offers === null ? (
+            <p className="text-xs text-gray-400">Loading offers...</p>
+          ) : offers.length === 0 ? (
+            <p className="text-xs text-gray-400 italic">No offers yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {offers.map((offer) => {
+                const counter = activeCounter(offer, land.owner);
+                return (
+                  <li key={offer.index} className="text-xs">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="font-medium text-gray-700">
+                        {formatEther(offer.price)} ETH
+                      </span>
+                      <span className="text-gray-400">
+                        from {shortAddress(offer.buyer)}
+                      </span>
+                    </div>
+                    <p
+                      className={
+                        offer.status === "Accepted"
+                          ? "text-green-600"
+                          : "text-gray-400"
+                      }
+                    >
+                      {describeOffer(offer)}
+                    </p>
+                    {counter !== null && offer.status === "Open" && (
+                      <p className="text-indigo-600">
+                        Owner countered at {formatEther(counter)} ETH
+                      </p>
+                    )}
+                    {/* An offer made before its buyer got the parcel can
+                        only be withdrawn */}
+                    {offer.status === "Open" &&
+                      isOwner &&
+                      !isAccount(offer.buyer) &&
+                      isOfferOpen(offer) &&
+                      onAcceptOffer &&
+                      ownerActions(offer)}
+                    {offer.status === "Open" &&
+                      isAccount(offer.buyer) &&
+                      onWithdrawOffer &&
+                      buyerActions(offer)}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {onMakeOffer && account && !isOwner && (
+            <div className="space-y-2 pt-1">
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Offer (ETH)"
+                  value={offerPrice}
+                  onChange={(e) => setOfferPrice(e.target.value)}
+                  className="border border-gray-300 rounded-lg px-2 py-1 text-sm flex-1 min-w-0"
+                />
+                <select
+                  title="Offer expiry"
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(Number(e.target.value))}
+                  className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                >
+                  {EXPIRY_DAYS.map((days) => (
+                    <option key={days} value={days}>
+                      {days === 1 ? "1 day" : `${days} days`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={placeOffer}
+                disabled={disabled || !offerPrice}
+                className="w-full bg-indigo-500 hover:bg-indigo-600 text-white py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                Place Offer
+              </button>
+              <p className="text-xs text-gray-400">
+                The price plus {land.state} stamp duty is held by the contract
+                until the owner decides or you withdraw.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+// Shown while a lender's charge blocks sales and transfers of the parcel
+export default function LienBadge({ activeLiens }: { activeLiens: bigint }) {
+  if (activeLiens === BigInt(0)) return null;
+
+  return (
+    <span
+      title="Cannot be sold or transferred until the lender releases it"
+      className="inline-block text-xs px-2 py-1 rounded-full bg-red-100 text-red-800 font-medium mb-2"
+    >
+      🏦 {activeLiens === BigInt(1) ? "Under lien" : `${activeLiens} liens`}
+    </span>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther } from "ethers";
+
+interface ListingControlsProps {
+  landId: bigint;
+  price: bigint;
+  isForSale: boolean;
+  disabled?: boolean;
+  onListLand: (id: bigint, price: string) => void;
+  onDelistLand: (id: bigint) => void;
+  onUpdatePrice: (id: bigint, price: string) => void;
+}
+
+// Human-readable "on market since" label from the on-chain listedAt timestamp
+export function formatMarketSince(listedAt: bigint): string {
+  if (listedAt === BigInt(0)) return "";
+  const since = new Date(Number(listedAt) * 1000);
+  const days = Math.floor((Date.now() - since.getTime()) / 86_400_000);
+  const ago = days <= 0 ? "today" : `${days} day${days === 1 ? "" : "s"} ago`;
+  return `On market since ${since.toLocaleDateString()} (${ago})`;
+}
+
+export default function ListingControls({
+  landId,
+  price,
+  isForSale,
+  disabled,
+  onListLand,
+  onDelistLand,
+  onUpdatePrice,
+}: ListingControlsProps) {
+  const [priceInput, setPriceInput] = useState(formatEther(price));
+  const isValidPrice = priceInput !== "" && Number(priceInput) > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={priceInput}
+          onChange={(e) => setPriceInput(e.target.value)}
+          placeholder="Price (ETH)"
+          className="border border-gray-300 rounded-lg px-3 py-1 text-sm w-full"
+        />
+        {isForSale ? (
+          <button
+            onClick={() => onUpdatePrice(landId, priceInput)}
+            disabled={disabled || !isValidPrice}
+            className="bg-indigo-500 hover:bg-indigo-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            Update Price
+          </button>
+        ) : (
+          <button
+            onClick={() => onListLand(landId, priceInput)}
+            disabled={disabled || !isValidPrice}
+            className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            List for Sale
+          </button>
+        )}
+      </div>
+      {isForSale && (
+        <button
+          onClick={() => onDelistLand(landId)}
+          disabled={disabled}
+          className="w-full bg-red-500 hover:bg-red-600 text-white py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Withdraw Listing
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,45 +1,68 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   MapContainer,
   TileLayer,
   Marker,
   Popup,
+  Polygon,
+  Polyline,
+  CircleMarker,
+  useMap,
   useMapEvents,
 } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
 import L from "leaflet";
+import Link from "next/link";
 import "leaflet/dist/leaflet.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.Default.css";
+import ListingControls, { formatMarketSince } from "./ListingControls";
+import MapLegend from "./MapLegend";
+import { LandStatus, landMarkerIcon, landTypeOf } from "./landMarkers";
+import { Coordinates } from "../utils/coordinates";
+import { PolygonGeometry, polygonToLatLngs } from "../utils/geometry";
+import { LandMetadata } from "../utils/landMetadata";
+import LandMetadataDetails from "./LandMetadataDetails";
+import LienBadge from "./LienBadge";
 
-// Fix for default marker icons in Leaflet with Next.js
-const defaultIcon = L.icon({
-  iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-  iconRetinaUrl:
-    "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41],
-});
-
-L.Marker.prototype.options.icon = defaultIcon;
+// A viewport change showing fewer lands than this requests one more page
+const MAP_MIN_VISIBLE_LANDS = 20;
 
 export interface Land {
   id: bigint;
+  surveyNumber: string;
   location: string;
+  state: string;
   price: bigint;
   isForSale: boolean;
   seller: string;
-  coordinates?: [number, number];
+  owner: string;
+  listedAt: bigint;
+  activeLiens: bigint;
+  coordinates: Coordinates;
+  boundary?: PolygonGeometry;
+  metadata?: LandMetadata | null;
 }
 
 interface MapProps {
   lands: Land[];
+  hasMoreLands?: boolean;
+  onLoadMoreLands?: () => void;
   onBuyLand: (id: bigint) => void;
+  onListLand: (id: bigint, price: string) => void;
+  onDelistLand: (id: bigint) => void;
+  onUpdatePrice: (id: bigint, price: string) => void;
+  account?: string | null;
+  // Lands whose sale is held in escrow for registrar approval
+  pendingLandIds?: Set<bigint>;
+  // Lands under auction, which are managed from the auction list instead
+  auctionLandIds?: Set<bigint>;
   onMapClick?: (lat: number, lng: number) => void;
   isRegistering?: boolean;
-  selectedCoords?: [number, number] | null;
+  boundaryPoints?: [number, number][];
+  focusedLand?: Land | null;
 }
 
 function MapClickHandler({
@@ -57,19 +80,138 @@ function MapClickHandler({
   return null;
 }
 
+function MapViewportHandler({
+  onViewportChange,
+}: {
+  onViewportChange: (bounds: L.LatLngBounds) => void;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    onViewportChange(map.getBounds());
+  }, [map, onViewportChange]);
+
+  useMapEvents({
+    moveend: () => onViewportChange(map.getBounds()),
+  });
+  return null;
+}
+
+// Flies to the focused land and opens its popup once the map settles,
+// spiderfying its cluster first if the marker is still inside one
+function MapFocusHandler({
+  focusedLand,
+  markerRefs,
+  clusterRef,
+}: {
+  focusedLand?: Land | null;
+  markerRefs: React.RefObject<Record<string, L.Marker>>;
+  clusterRef: React.RefObject<L.MarkerClusterGroup | null>;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!focusedLand) return;
+    const id = focusedLand.id.toString();
+    map.once("moveend", () => {
+      const marker = markerRefs.current[id];
+      if (!marker) return;
+      if (clusterRef.current) {
+        clusterRef.current.zoomToShowLayer(marker, () => marker.openPopup());
+      } else {
+        marker.openPopup();
+      }
+    });
+    map.flyTo([focusedLand.coordinates.lat, focusedLand.coordinates.lng], 15);
+  }, [map, focusedLand, markerRefs, clusterRef]);
+
+  return null;
+}
+
 export default function Map({
   lands,
+  hasMoreLands,
+  onLoadMoreLands,
   onBuyLand,
+  onListLand,
+  onDelistLand,
+  onUpdatePrice,
+  account,
+  pendingLandIds,
+  auctionLandIds,
   onMapClick,
   isRegistering,
-  selectedCoords,
+  boundaryPoints = [],
+  focusedLand,
 }: MapProps) {
   const [isMounted, setIsMounted] = useState(false);
+  const [bounds, setBounds] = useState<L.LatLngBounds | null>(null);
+  const markerRefs = useRef<Record<string, L.Marker>>({});
+  const clusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  // The viewport that last requested a page, so each change loads at most one
+  const loadedForBoundsRef = useRef<L.LatLngBounds | null>(null);
+  // Land types and statuses switched off in the legend
+  const [hiddenCategories, setHiddenCategories] = useState<Set<string>>(
+    new Set(),
+  );
 
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
+  const statusOf = (land: Land): LandStatus =>
+    pendingLandIds?.has(land.id)
+      ? "pending"
+      : account && land.owner.toLowerCase() === account.toLowerCase()
+        ? "mine"
+        : land.isForSale
+          ? "forSale"
+          : "sold";
+
+  // A searched-for land may not be in the loaded pages yet
+  const displayedLands = (
+    focusedLand && !lands.some((land) => land.id === focusedLand.id)
+      ? [...lands, focusedLand]
+      : lands
+  ).flatMap((land) => {
+    const landType = landTypeOf(land.metadata?.properties?.landType);
+    const status = statusOf(land);
+    const isFocused = land.id === focusedLand?.id;
+    if (
+      !isFocused &&
+      (hiddenCategories.has(landType) || hiddenCategories.has(status))
+    ) {
+      return [];
+    }
+    const coords: [number, number] = [
+      land.coordinates.lat,
+      land.coordinates.lng,
+    ];
+    return [{ land, coords, landType, status, isFocused }];
+  });
+
+  // Markers are clustered, but boundaries are only drawn for lands inside
+  // the current viewport (plus the focused one)
+  const visibleLands = displayedLands.filter(
+    ({ coords, isFocused }) => isFocused || !bounds || bounds.contains(coords),
+  );
+
+  const toggleCategory = (category: string) => {
+    setHiddenCategories((current) => {
+      const next = new Set(current);
+      if (!next.delete(category)) next.add(category);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    if (!bounds || loadedForBoundsRef.current === bounds) return;
+    if (hasMoreLands && visibleLands.length < MAP_MIN_VISIBLE_LANDS) {
+      loadedForBoundsRef.current = bounds;
+      onLoadMoreLands?.();
+    }
+  }, [bounds, hasMoreLands, visibleLands.length, onLoadMoreLands]);
+
   if (!isMounted) {
     return (
       <div className="w-full h-[500px] bg-gray-200 animate-pulse rounded-lg flex items-center justify-center">
@@ -78,86 +220,177 @@ export default function Map({
     );
   }
 
-  // Parse location string to get coordinates
-  const parseCoordinates = (location: string): [number, number] | null => {
-    try {
-      const match = location.match(/Lat:\s*([\d.-]+),\s*Lng:\s*([\d.-]+)/);
-      if (match) {
-        return [parseFloat(match[1]), parseFloat(match[2])];
-      }
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
   const formatPrice = (price: bigint): string => {
     return (Number(price) / 1e18).toFixed(4);
   };
 
   return (
-    <MapContainer
-      center={[20.5937, 78.9629]} // Center of India
-      zoom={5}
-      className="w-full h-[500px] rounded-lg shadow-lg z-0"
-    >
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+    <div className="relative">
+      <MapContainer
+        center={[20.5937, 78.9629]} // Center of India
+        zoom={5}
+        className="w-full h-[500px] rounded-lg shadow-lg z-0"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        <MapClickHandler onMapClick={onMapClick} />
+        <MapViewportHandler onViewportChange={setBounds} />
+        <MapFocusHandler
+          focusedLand={focusedLand}
+          markerRefs={markerRefs}
+          clusterRef={clusterRef}
+        />
+
+        {/* Boundaries of lands within the viewport */}
+        {visibleLands.map(
+          ({ land }) =>
+            land.boundary && (
+              <Polygon
+                key={land.id.toString()}
+                positions={polygonToLatLngs(land.boundary)}
+                pathOptions={{
+                  color: land.isForSale ? "#16a34a" : "#6b7280",
+                  weight: 2,
+                  fillOpacity: 0.2,
+                }}
+              />
+            ),
+        )}
+
+        <MarkerClusterGroup
+          ref={clusterRef}
+          chunkedLoading
+          showCoverageOnHover={false}
+          maxClusterRadius={50}
+        >
+          {displayedLands.map(({ land, coords, landType, status }) => {
+            const isOwner = status === "mine";
+
+            return (
+              <Marker
+                key={land.id.toString()}
+                position={coords}
+                icon={landMarkerIcon(landType, status)}
+                ref={(marker) => {
+                  const id = land.id.toString();
+                  if (marker) markerRefs.current[id] = marker;
+                  else delete markerRefs.current[id];
+                }}
+              >
+                <Popup>
+                  <div className="p-2 min-w-[200px] max-w-[240px]">
+                    <h3 className="font-bold text-lg mb-2">
+                      Land #{land.id.toString()}
+                    </h3>
+                    <LienBadge activeLiens={land.activeLiens} />
+                    <p className="text-xs text-gray-500 mb-1">
+                      Survey No. {land.surveyNumber}
+                    </p>
+                    <p className="text-sm text-gray-600 mb-1">
+                      📍 {land.location}
+                    </p>
+                    <LandMetadataDetails metadata={land.metadata} compact />
+                    <p className="text-sm font-semibold mb-2">
+                      💰 {formatPrice(land.price)} ETH
+                    </p>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Owner: {land.owner.slice(0, 6)}...{land.owner.slice(-4)}
+                    </p>
+                    <Link
+                      href={`/lands/${land.id}`}
+                      className="block text-xs text-indigo-600 hover:text-indigo-800 font-medium mb-2"
+                    >
+                      View details →
+                    </Link>
+                    {land.isForSale && (
+                      <p className="text-xs text-gray-500 mb-2">
+                        {formatMarketSince(land.listedAt)}
+                      </p>
+                    )}
+                    {status === "pending" ? (
+                      <span className="block text-center text-amber-700 text-sm py-2">
+                        ⏳ Transfer awaiting registrar approval
+                      </span>
+                    ) : isOwner && auctionLandIds?.has(land.id) ? (
+                      <span className="block text-center text-purple-700 text-sm py-2">
+                        🔨 On auction
+                      </span>
+                    ) : isOwner && land.activeLiens > BigInt(0) ? (
+                      <span className="block text-center text-red-700 text-sm py-2">
+                        Cannot be listed until the lien is released
+                      </span>
+                    ) : isOwner ? (
+                      <ListingControls
+                        landId={land.id}
+                        price={land.price}
+                        isForSale={land.isForSale}
+                        onListLand={onListLand}
+                        onDelistLand={onDelistLand}
+                        onUpdatePrice={onUpdatePrice}
+                      />
+                    ) : land.isForSale && land.activeLiens > BigInt(0) ? (
+                      <span className="block text-center text-red-700 text-sm py-2">
+                        Cannot be bought until the lien is released
+                      </span>
+                    ) : land.isForSale ? (
+                      <button
+                        onClick={() => onBuyLand(land.id)}
+                        className="w-full bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                      >
+                        Buy Land
+                      </button>
+                    ) : (
+                      <span className="block text-center text-gray-500 text-sm py-2">
+                        Not for sale
+                      </span>
+                    )}
+                  </div>
+                </Popup>
+              </Marker>
+            );
+          })}
+        </MarkerClusterGroup>
+
+        {/* Show the boundary being drawn when registering */}
+        {isRegistering && boundaryPoints.length > 0 && (
+          <>
+            {boundaryPoints.length >= 3 ? (
+              <Polygon
+                positions={boundaryPoints}
+                pathOptions={{ color: "#6366f1", dashArray: "6 4" }}
+              />
+            ) : (
+              <Polyline
+                positions={boundaryPoints}
+                pathOptions={{ color: "#6366f1", dashArray: "6 4" }}
+              />
+            )}
+            {boundaryPoints.map((point, index) => (
+              <CircleMarker
+                key={index}
+                center={point}
+                radius={5}
+                pathOptions={{ color: "#6366f1", fillOpacity: 1 }}
+              />
+            ))}
+          </>
+        )}
+      </MapContainer>
+      <MapLegend
+        hidden={hiddenCategories}
+        onToggle={toggleCategory}
+        showMine={!!account}
       />
-      <MapClickHandler onMapClick={onMapClick} />
-
-      {/* Show existing lands */}
-      {lands.map((land) => {
-        const coords = parseCoordinates(land.location);
-        if (!coords) return null;
-
-        return (
-          <Marker key={land.id.toString()} position={coords}>
-            <Popup>
-              <div className="p-2 min-w-[200px]">
-                <h3 className="font-bold text-lg mb-2">
-                  Land #{land.id.toString()}
-                </h3>
-                <p className="text-sm text-gray-600 mb-1">📍 {land.location}</p>
-                <p className="text-sm font-semibold mb-2">
-                  💰 {formatPrice(land.price)} ETH
-                </p>
-                <p className="text-xs text-gray-500 mb-2">
-                  Owner: {land.seller.slice(0, 6)}...{land.seller.slice(-4)}
-                </p>
-                {land.isForSale ? (
-                  <button
-                    onClick={() => onBuyLand(land.id)}
-                    className="w-full bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-                  >
-                    Buy Land
-                  </button>
-                ) : (
-                  <span className="block text-center text-gray-500 text-sm py-2">
-                    Not for sale
-                  </span>
-                )}
-              </div>
-            </Popup>
-          </Marker>
-        );
-      })}
-
-      {/* Show selected coordinates when registering */}
-      {isRegistering && selectedCoords && (
-        <Marker position={selectedCoords}>
-          <Popup>
-            <div className="p-2">
-              <p className="font-semibold">New Land Location</p>
-              <p className="text-sm text-gray-600">
-                Lat: {selectedCoords[0].toFixed(4)}, Lng:{" "}
-                {selectedCoords[1].toFixed(4)}
-              </p>
-            </div>
-          </Popup>
-        </Marker>
+      {hasMoreLands && onLoadMoreLands && (
+        <button
+          onClick={onLoadMoreLands}
+          className="absolute bottom-3 left-1/2 -translate-x-1/2 z-[1000] bg-white/95 hover:bg-white shadow-md rounded-lg px-3 py-1 text-sm font-medium text-indigo-600"
+        >
+          Load more parcels
+        </button>
       )}
-    </MapContainer>
+    </div>
   );
 }
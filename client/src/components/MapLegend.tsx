@@ -0,0 +1,74 @@
+"use client";
+
+import { LAND_STATUS_STYLES, LAND_TYPE_STYLES } from "./landMarkers";
+
+interface MapLegendProps {
+  // Land type and status keys currently hidden on the map
+  hidden: Set<string>;
+  onToggle: (category: string) => void;
+  // "Mine" only means something with a connected wallet
+  showMine: boolean;
+}
+
+function LegendItem({
+  label,
+  swatch,
+  checked,
+  onChange,
+}: {
+  label: string;
+  swatch: React.ReactNode;
+  checked: boolean;
+  onChange: () => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 cursor-pointer select-none">
+      <input type="checkbox" checked={checked} onChange={onChange} />
+      {swatch}
+      <span>{label}</span>
+    </label>
+  );
+}
+
+export default function MapLegend({
+  hidden,
+  onToggle,
+  showMine,
+}: MapLegendProps) {
+  return (
+    <div className="absolute top-3 right-3 z-[1000] bg-white/95 rounded-lg shadow-md p-3 text-xs text-gray-700 space-y-1">
+      <p className="font-semibold text-gray-800">Land type</p>
+      {Object.entries(LAND_TYPE_STYLES).map(([type, style]) => (
+        <LegendItem
+          key={type}
+          label={style.label}
+          swatch={
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: style.color }}
+            />
+          }
+          checked={!hidden.has(type)}
+          onChange={() => onToggle(type)}
+        />
+      ))}
+      <p className="font-semibold text-gray-800 pt-1">Status</p>
+      {Object.entries(LAND_STATUS_STYLES)
+        .filter(([status]) => showMine || status !== "mine")
+        .map(([status, style]) => (
+          <LegendItem
+            key={status}
+            label={style.label}
+            swatch={
+              <span
+                className="inline-block w-3 h-3 rounded-full border-2 bg-white"
+                style={{ borderColor: style.color }}
+              />
+            }
+            checked={!hidden.has(status)}
+            onChange={() => onToggle(status)}
+          />
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { networkName, supportedDeployments } from "../utils/deployments";
+
+interface NetworkPickerProps {
+  // The wallet's chain, which has no deployment
+  chainId: number;
+  onSelect: (chainId: number) => void;
+}
+
+export default function NetworkPicker({
+  chainId,
+  onSelect,
+}: NetworkPickerProps) {
+  const deployments = supportedDeployments();
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-4 mb-6">
+      <h2 className="font-bold text-yellow-800 mb-1">⚠️ Unsupported network</h2>
+      <p className="text-sm text-yellow-800 mb-3">
+        Your wallet is on chain {chainId}, where the Land Registry is not
+        deployed. Lands below are read-only until you switch to one of these
+        networks:
+      </p>
+      {deployments.length === 0 ? (
+        <p className="text-sm text-yellow-800 italic">
+          No deployments have been recorded yet.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {deployments.map((deployment) => (
+            <button
+              key={deployment.chainId}
+              onClick={() => onSelect(deployment.chainId)}
+              className="bg-white border border-yellow-400 hover:bg-yellow-100 text-yellow-900 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              {networkName(deployment)}{" "}
+              <span className="text-xs text-yellow-700">
+                (chain {deployment.chainId})
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
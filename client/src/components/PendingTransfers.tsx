@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther } from "ethers";
+import { PendingTransfer, isExpired } from "../utils/pendingTransfers";
+
+interface PendingTransfersProps {
+  transfers: PendingTransfer[];
+  account: string;
+  // Whether the account is a registrar for the given state
+  canApprove: (state: string) => boolean;
+  disabled?: boolean;
+  onApprove: (landId: bigint) => void;
+  onReject: (landId: bigint, reason: string) => void;
+  onRefund: (landId: bigint) => void;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatDeadline(transfer: PendingTransfer): string {
+  const deadline = new Date(Number(transfer.deadline) * 1000).toLocaleString();
+  return isExpired(transfer)
+    ? `Approval deadline passed on ${deadline}`
+    : `Registrar decision due by ${deadline}`;
+}
+
+function TransferSummary({ transfer }: { transfer: PendingTransfer }) {
+  return (
+    <div>
+      <p className="font-medium text-gray-800">
+        Land #{transfer.landId.toString()} · Survey No. {transfer.surveyNumber}{" "}
+        · {transfer.state}
+      </p>
+      <p className="text-xs text-gray-500">
+        {shortAddress(transfer.seller)} → {shortAddress(transfer.buyer)} for{" "}
+        {formatEther(transfer.price)} ETH + {formatEther(transfer.stampDuty)}{" "}
+        ETH stamp duty
+      </p>
+      <p
+        className={`text-xs ${
+          isExpired(transfer) ? "text-red-600" : "text-gray-500"
+        }`}
+      >
+        {formatDeadline(transfer)}
+      </p>
+    </div>
+  );
+}
+
+export default function PendingTransfers({
+  transfers,
+  account,
+  canApprove,
+  disabled,
+  onApprove,
+  onReject,
+  onRefund,
+}: PendingTransfersProps) {
+  const [rejecting, setRejecting] = useState<bigint | null>(null);
+  const [reason, setReason] = useState("");
+
+  const isAccount = (address: string) =>
+    address.toLowerCase() === account.toLowerCase();
+  const purchases = transfers.filter((t) => isAccount(t.buyer));
+  const sales = transfers.filter((t) => isAccount(t.seller));
+  // Registrars never decide on their own deals
+  const toReview = transfers.filter(
+    (t) => canApprove(t.state) && !isAccount(t.buyer) && !isAccount(t.seller),
+  );
+  if (purchases.length + sales.length + toReview.length === 0) return null;
+
+  const submitRejection = (landId: bigint) => {
+    onReject(landId, reason.trim());
+    setRejecting(null);
+    setReason("");
+  };
+
+  const refundButton = (transfer: PendingTransfer, label: string) =>
+    isExpired(transfer) && (
+      <button
+        onClick={() => onRefund(transfer.landId)}
+        disabled={disabled}
+        className="bg-indigo-500 hover:bg-indigo-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+      >
+        {label}
+      </button>
+    );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-1">
+        ⏳ Pending Transfers
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Payments are held in escrow until a registrar for the parcel&apos;s
+        state approves the transfer. Rejected or expired transfers refund the
+        buyer in full.
+      </p>
+
+      {toReview.length > 0 && (
+        <section className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            Awaiting your approval
+          </h3>
+          <ul className="space-y-3">
+            {toReview.map((transfer) => (
+              <li
+                key={transfer.landId.toString()}
+                className="border border-gray-200 rounded-lg p-3 text-sm"
+              >
+                <TransferSummary transfer={transfer} />
+                {isExpired(transfer) ? (
+                  <div className="mt-2">
+                    {refundButton(transfer, "Refund buyer")}
+                  </div>
+                ) : rejecting === transfer.landId ? (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <input
+                      type="text"
+                      placeholder="Reason for rejection"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="border border-gray-300 rounded-lg px-3 py-1 text-sm flex-1 min-w-[200px]"
+                    />
+                    <button
+                      onClick={() => submitRejection(transfer.landId)}
+                      disabled={disabled || !reason.trim()}
+                      className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      Reject &amp; Refund
+                    </button>
+                    <button
+                      onClick={() => setRejecting(null)}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => onApprove(transfer.landId)}
+                      disabled={disabled}
+                      className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setRejecting(transfer.landId)}
+                      disabled={disabled}
+                      className="border border-red-300 text-red-600 hover:bg-red-50 px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {purchases.length > 0 && (
+        <section className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            Your purchases
+          </h3>
+          <ul className="space-y-3">
+            {purchases.map((transfer) => (
+              <li
+                key={transfer.landId.toString()}
+                className="border border-gray-200 rounded-lg p-3 text-sm flex justify-between items-start gap-2"
+              >
+                <TransferSummary transfer={transfer} />
+                {refundButton(transfer, "Reclaim payment")}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {sales.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            Your sales
+          </h3>
+          <ul className="space-y-3">
+            {sales.map((transfer) => (
+              <li
+                key={transfer.landId.toString()}
+                className="border border-gray-200 rounded-lg p-3 text-sm flex justify-between items-start gap-2"
+              >
+                <TransferSummary transfer={transfer} />
+                {refundButton(transfer, "Refund & relist")}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
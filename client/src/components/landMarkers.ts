@@ -0,0 +1,62 @@
+import L from "leaflet";
+import { LAND_TYPES } from "../utils/landMetadata";
+
+// Marker styles are plain divIcons styled in globals.css, so the map needs
+// no marker images from a CDN.
+
+export type LandStatus = "forSale" | "pending" | "sold" | "mine";
+
+// Lands whose metadata is missing or has no recognised land type
+export const UNKNOWN_LAND_TYPE = "unknown";
+
+interface CategoryStyle {
+  label: string;
+  color: string;
+}
+
+export const LAND_TYPE_STYLES: Record<
+  string,
+  CategoryStyle & { glyph: string }
+> = {
+  agricultural: { label: "Agricultural", color: "#65a30d", glyph: "🌾" },
+  residential: { label: "Residential", color: "#2563eb", glyph: "🏠" },
+  commercial: { label: "Commercial", color: "#9333ea", glyph: "🏢" },
+  industrial: { label: "Industrial", color: "#ea580c", glyph: "🏭" },
+  forest: { label: "Forest", color: "#15803d", glyph: "🌲" },
+  government: { label: "Government", color: "#b91c1c", glyph: "🏛️" },
+  [UNKNOWN_LAND_TYPE]: { label: "Unspecified", color: "#6b7280", glyph: "📍" },
+};
+
+export const LAND_STATUS_STYLES: Record<LandStatus, CategoryStyle> = {
+  forSale: { label: "For sale", color: "#16a34a" },
+  pending: { label: "Transfer pending", color: "#f59e0b" },
+  sold: { label: "Sold", color: "#9ca3af" },
+  mine: { label: "Mine", color: "#4f46e5" },
+};
+
+export function landTypeOf(landType: unknown): string {
+  return typeof landType === "string" && LAND_TYPES.includes(landType)
+    ? landType
+    : UNKNOWN_LAND_TYPE;
+}
+
+const iconCache: Record<string, L.DivIcon> = {};
+
+export function landMarkerIcon(
+  landType: string,
+  status: LandStatus,
+): L.DivIcon {
+  const key = `${landType}:${status}`;
+  if (!iconCache[key]) {
+    const { color, glyph } = LAND_TYPE_STYLES[landType];
+    const borderColor = LAND_STATUS_STYLES[status].color;
+    iconCache[key] = L.divIcon({
+      className: "land-marker-icon",
+      html: `<span class="land-marker land-marker-${status}" style="background-color: ${color}; border-color: ${borderColor}">${glyph}</span>`,
+      iconSize: [30, 30],
+      iconAnchor: [15, 15],
+      popupAnchor: [0, -15],
+    });
+  }
+  return iconCache[key];
+}
@@ -0,0 +1,95 @@
+import { Contract, EventLog, ZeroAddress } from "ethers";
+
+export interface AuctionBid {
+  bidder: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// An auction that has not been settled or cancelled yet
+export interface LandAuction {
+  landId: bigint;
+  surveyNumber: string;
+  location: string;
+  state: string;
+  seller: string;
+  reservePrice: bigint;
+  minIncrement: bigint;
+  // Unix seconds; late bids push it back
+  endTime: bigint;
+  // ZeroAddress until the first bid
+  highestBidder: string;
+  highestBid: bigint;
+  // Newest first
+  bids: AuctionBid[];
+}
+
+// Auctions come from AuctionStarted events; the auctions mapping says which
+// are still running
+export async function fetchActiveAuctions(
+  contract: Contract,
+  fromBlock = 0,
+): Promise<LandAuction[]> {
+  const [started, bidEvents] = await Promise.all([
+    contract.queryFilter(contract.filters.AuctionStarted(), fromBlock),
+    contract.queryFilter(contract.filters.AuctionBid(), fromBlock),
+  ]);
+  const ids = [
+    ...new Set(started.map((event) => (event as EventLog).args.id)),
+  ] as bigint[];
+
+  const auctions = await Promise.all(
+    ids.map(async (landId) => {
+      const [auction, land] = await Promise.all([
+        contract.auctions(landId),
+        contract.lands(landId),
+      ]);
+      if (auction.endTime === BigInt(0)) return null;
+      // Bids of earlier auctions on the same parcel came before this one began
+      const startBlock = Math.max(
+        ...started
+          .filter((event) => (event as EventLog).args.id === landId)
+          .map((event) => event.blockNumber),
+      );
+      const bids = bidEvents
+        .filter(
+          (event) =>
+            (event as EventLog).args.id === landId &&
+            event.blockNumber >= startBlock,
+        )
+        .map((event) => ({
+          bidder: (event as EventLog).args.bidder,
+          amount: (event as EventLog).args.amount,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        }))
+        .reverse();
+      return {
+        landId,
+        surveyNumber: land.surveyNumber,
+        location: land.location,
+        state: land.state,
+        seller: auction.seller,
+        reservePrice: auction.reservePrice,
+        minIncrement: auction.minIncrement,
+        endTime: auction.endTime,
+        highestBidder: auction.highestBidder,
+        highestBid: auction.highestBid,
+        bids,
+      };
+    }),
+  );
+  return auctions.filter((auction): auction is LandAuction => auction !== null);
+}
+
+// The lowest amount bid accepts right now
+export function minimumBid(auction: LandAuction): bigint {
+  return auction.highestBidder === ZeroAddress
+    ? auction.reservePrice
+    : auction.highestBid + auction.minIncrement;
+}
+
+export function hasEnded(auction: LandAuction, now = Date.now()) {
+  return Number(auction.endTime) * 1000 <= now;
+}
@@ -0,0 +1,16 @@
+// Mirrors LandRegistry.COORDINATE_SCALE: coordinates are stored on chain as
+// integer micro-degrees.
+export const COORDINATE_SCALE = 1_000_000;
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export function toFixedPoint(degrees: number): number {
+  return Math.round(degrees * COORDINATE_SCALE);
+}
+
+export function fromFixedPoint(value: bigint | number): number {
+  return Number(value) / COORDINATE_SCALE;
+}
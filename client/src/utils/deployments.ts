@@ -0,0 +1,79 @@
+import { InterfaceAbi } from "ethers";
+import registry from "./deployments.json";
+
+// Written by the deploy scripts (scripts/deployments.ts)
+interface DeploymentRegistry {
+  abis: Record<string, InterfaceAbi>;
+  chains: Record<
+    string,
+    {
+      network: string;
+      rpcUrl?: string;
+      deployments: {
+        address: string;
+        abiVersion: string;
+        blockNumber: number;
+        deployer: string;
+        deployedAt: string;
+      }[];
+    }
+  >;
+}
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  rpcUrl?: string;
+  address: string;
+  abi: InterfaceAbi;
+  blockNumber: number;
+  deployer: string;
+  deployedAt: string;
+}
+
+const { abis, chains } = registry as DeploymentRegistry;
+
+// The active (most recent) deployment on each chain
+const DEPLOYMENTS: Deployment[] = Object.entries(chains).flatMap(
+  ([chainId, chain]) => {
+    const latest = chain.deployments[chain.deployments.length - 1];
+    if (!latest) return [];
+    return [
+      {
+        chainId: Number(chainId),
+        network: chain.network,
+        rpcUrl: chain.rpcUrl,
+        address: latest.address,
+        abi: abis[latest.abiVersion],
+        blockNumber: latest.blockNumber,
+        deployer: latest.deployer,
+        deployedAt: latest.deployedAt,
+      },
+    ];
+  },
+);
+
+export function getDeployment(chainId: number): Deployment | null {
+  return DEPLOYMENTS.find((d) => d.chainId === chainId) ?? null;
+}
+
+export function supportedDeployments(): Deployment[] {
+  return DEPLOYMENTS;
+}
+
+// Chain shown to visitors without a wallet: NEXT_PUBLIC_DEFAULT_CHAIN_ID, or
+// the most recent deployment that has a public endpoint
+export const DEFAULT_DEPLOYMENT: Deployment | null =
+  (process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID
+    ? getDeployment(Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID))
+    : [...DEPLOYMENTS]
+        .filter((d) => d.rpcUrl)
+        .sort((a, b) => b.deployedAt.localeCompare(a.deployedAt))[0]) ??
+  DEPLOYMENTS[0] ??
+  null;
+
+export function networkName(deployment: Deployment): string {
+  return deployment.network === "localhost"
+    ? "Hardhat Local"
+    : deployment.network.charAt(0).toUpperCase() + deployment.network.slice(1);
+}
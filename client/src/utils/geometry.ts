@@ -0,0 +1,186 @@
+import { keccak256, toUtf8Bytes } from "ethers";
+
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+
+export interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][];
+}
+
+// Closed GeoJSON polygon from points drawn on the map as [lat, lng]
+export function polygonFromLatLngs(
+  points: [number, number][],
+): PolygonGeometry {
+  const ring: Position[] = points.map(([lat, lng]) => [
+    Math.round(lng * 1e6) / 1e6,
+    Math.round(lat * 1e6) / 1e6,
+  ]);
+  return { type: "Polygon", coordinates: [[...ring, ring[0]]] };
+}
+
+// Leaflet [lat, lng] positions of a polygon's outer ring
+export function polygonToLatLngs(polygon: PolygonGeometry): [number, number][] {
+  return polygon.coordinates[0].map(([lng, lat]) => [lat, lng]);
+}
+
+export function polygonCentroid(points: [number, number][]): [number, number] {
+  const sum = points.reduce(
+    (acc, [lat, lng]) => [acc[0] + lat, acc[1] + lng],
+    [0, 0],
+  );
+  return [sum[0] / points.length, sum[1] / points.length];
+}
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+// Parses dataset areas such as "5000 sq meters"
+export function parseAreaSqMeters(area: string): number {
+  const match = area.match(/^\s*([\d.]+)\s*sq\.?\s*m(eters?)?\s*$/i);
+  if (!match) {
+    throw new Error(`Unsupported area format: "${area}"`);
+  }
+  return parseFloat(match[1]);
+}
+
+// Square boundary of the given area centred on a point, for datasets that
+// only record a centre coordinate.
+export function squareBoundary(
+  center: { lat: number; lng: number },
+  areaSqMeters: number,
+): PolygonGeometry {
+  const halfSide = Math.sqrt(areaSqMeters) / 2;
+  const dLat = halfSide / METERS_PER_DEGREE_LAT;
+  const dLng =
+    halfSide / (METERS_PER_DEGREE_LAT * Math.cos((center.lat * Math.PI) / 180));
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  const ring: Position[] = [
+    [round(center.lng - dLng), round(center.lat - dLat)],
+    [round(center.lng + dLng), round(center.lat - dLat)],
+    [round(center.lng + dLng), round(center.lat + dLat)],
+    [round(center.lng - dLng), round(center.lat + dLat)],
+  ];
+  return { type: "Polygon", coordinates: [[...ring, ring[0]]] };
+}
+
+// Hash committed on chain; keys are written in a fixed order so the same
+// geometry always produces the same hash.
+export function boundaryHash(boundary: PolygonGeometry): string {
+  return keccak256(
+    toUtf8Bytes(
+      JSON.stringify({ type: "Polygon", coordinates: boundary.coordinates }),
+    ),
+  );
+}
+
+function outerRing(polygon: PolygonGeometry): Position[] {
+  const ring = polygon.coordinates[0];
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  // Drop the closing position GeoJSON repeats at the end
+  return first[0] === last[0] && first[1] === last[1]
+    ? ring.slice(0, -1)
+    : ring;
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+// Proper crossing only: segments that merely touch or share an edge do not count
+function segmentsCross(
+  p1: Position,
+  p2: Position,
+  q1: Position,
+  q2: Position,
+): boolean {
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function pointInRing(point: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      yi > point[1] !== yj > point[1] &&
+      point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const EPSILON = 1e-12;
+
+function pointOnRing(point: Position, ring: Position[]): boolean {
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    if (
+      Math.abs(orientation(a, b, point)) < EPSILON &&
+      point[0] >= Math.min(a[0], b[0]) - EPSILON &&
+      point[0] <= Math.max(a[0], b[0]) + EPSILON &&
+      point[1] >= Math.min(a[1], b[1]) - EPSILON &&
+      point[1] <= Math.max(a[1], b[1]) + EPSILON
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Vertices, edge midpoints and the centroid of a ring
+function samplePoints(ring: Position[]): Position[] {
+  const midpoints = ring.map((a, i): Position => {
+    const b = ring[(i + 1) % ring.length];
+    return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  });
+  const sum = ring.reduce((acc, [x, y]) => [acc[0] + x, acc[1] + y], [0, 0]);
+  return [...ring, ...midpoints, [sum[0] / ring.length, sum[1] / ring.length]];
+}
+
+function anyPointStrictlyInside(from: Position[], ring: Position[]): boolean {
+  return samplePoints(from).some(
+    (point) => pointInRing(point, ring) && !pointOnRing(point, ring),
+  );
+}
+
+// True when the point ([lng, lat]) lies strictly inside the polygon
+export function polygonContains(
+  polygon: PolygonGeometry,
+  point: Position,
+): boolean {
+  const ring = outerRing(polygon);
+  return pointInRing(point, ring) && !pointOnRing(point, ring);
+}
+
+// True when the interiors of two parcels intersect. Neighbouring parcels that
+// only share an edge or a corner are allowed.
+export function polygonsOverlap(
+  a: PolygonGeometry,
+  b: PolygonGeometry,
+): boolean {
+  const ringA = outerRing(a);
+  const ringB = outerRing(b);
+
+  for (let i = 0; i < ringA.length; i++) {
+    const a1 = ringA[i];
+    const a2 = ringA[(i + 1) % ringA.length];
+    for (let j = 0; j < ringB.length; j++) {
+      if (segmentsCross(a1, a2, ringB[j], ringB[(j + 1) % ringB.length])) {
+        return true;
+      }
+    }
+  }
+
+  // No crossing edges: overlap only if one parcel reaches inside the other
+  return (
+    anyPointStrictlyInside(ringA, ringB) || anyPointStrictlyInside(ringB, ringA)
+  );
+}
@@ -0,0 +1,103 @@
+import { Contract } from "ethers";
+import { resolveTokenURI } from "./landMetadata";
+import { sha256Hex, signUpload } from "./uploadAuth";
+
+// Same keys as DOCUMENT_TYPES in scripts/metadataStorage.ts
+export const DOCUMENT_TYPES: Record<string, string> = {
+  "sale-deed": "Sale Deed",
+  "encumbrance-certificate": "Encumbrance Certificate",
+  "survey-sketch": "Survey Sketch",
+  "tax-receipt": "Tax Receipt",
+  other: "Other",
+};
+
+export const DOCUMENT_ACCEPT = "application/pdf,image/*";
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Document struct as returned by getDocuments
+export interface LandDocument {
+  docType: string;
+  contentType: string;
+  uri: string;
+  contentHash: string;
+  addedBy: string;
+  addedAt: bigint;
+}
+
+// Plain objects rather than ethers Results, so they can be passed from
+// server components
+export async function fetchLandDocuments(
+  contract: Contract,
+  landId: bigint,
+): Promise<LandDocument[]> {
+  const documents: LandDocument[] = await contract.getDocuments(landId);
+  return documents.map((document) => ({
+    docType: document.docType,
+    contentType: document.contentType,
+    uri: document.uri,
+    contentHash: document.contentHash,
+    addedBy: document.addedBy,
+    addedAt: document.addedAt,
+  }));
+}
+
+export interface UploadedDocument {
+  uri: string;
+  contentType: string;
+  contentHash: string;
+}
+
+export function isDocumentContentType(contentType: string): boolean {
+  return contentType === "application/pdf" || contentType.startsWith("image/");
+}
+
+// 0x-prefixed sha256, the form attachDocument records on chain
+export function hashDocument(content: ArrayBuffer): Promise<string> {
+  return sha256Hex(content);
+}
+
+// Hashes the file locally, so the hash recorded on chain never depends on
+// what the upload route or the storage provider report back. The upload is
+// signed by the contract's wallet, which must own the land or be a registrar
+// for its state.
+export async function uploadLandDocument(
+  contract: Contract,
+  landId: bigint,
+  file: File,
+): Promise<UploadedDocument> {
+  const content = await file.arrayBuffer();
+  const contentHash = await hashDocument(content);
+
+  const body = new FormData();
+  body.append("landId", landId.toString());
+  body.append("file", file);
+  await signUpload(contract, body, "document", [content]);
+  const response = await fetch("/api/documents", { method: "POST", body });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      `Document upload failed: ${result.error || response.statusText}`,
+    );
+  }
+  return { uri: result.uri, contentType: file.type, contentHash };
+}
+
+export interface DownloadedDocument {
+  content: Blob;
+  verified: boolean;
+}
+
+export async function downloadDocument(
+  document: LandDocument,
+): Promise<DownloadedDocument> {
+  const response = await fetch(resolveTokenURI(document.uri));
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  const content = await response.arrayBuffer();
+  return {
+    content: new Blob([content], { type: document.contentType }),
+    verified:
+      (await hashDocument(content)) === document.contentHash.toLowerCase(),
+  };
+}
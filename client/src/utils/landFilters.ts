@@ -0,0 +1,173 @@
+import { parseEther } from "ethers";
+import { LandMetadata } from "./landMetadata";
+
+export type LandView = "all" | "forSale" | "mine";
+
+export type LandSort =
+  "idAsc" | "idDesc" | "priceAsc" | "priceDesc" | "recentlyListed";
+
+export const LAND_SORT_LABELS: Record<LandSort, string> = {
+  idAsc: "Land ID: low to high",
+  idDesc: "Land ID: high to low",
+  priceAsc: "Price: low to high",
+  priceDesc: "Price: high to low",
+  recentlyListed: "Recently listed",
+};
+
+// Everything here round-trips through the page's query string. Empty strings
+// mean "any"; prices are ETH as typed.
+export interface LandFilters {
+  view: LandView;
+  query: string;
+  state: string;
+  district: string;
+  landType: string;
+  minPrice: string;
+  maxPrice: string;
+  sort: LandSort;
+}
+
+export const DEFAULT_LAND_FILTERS: LandFilters = {
+  view: "all",
+  query: "",
+  state: "",
+  district: "",
+  landType: "",
+  minPrice: "",
+  maxPrice: "",
+  sort: "idAsc",
+};
+
+// Query parameter for each filter
+const QUERY_KEYS: Record<keyof LandFilters, string> = {
+  view: "view",
+  query: "q",
+  state: "state",
+  district: "district",
+  landType: "type",
+  minPrice: "minPrice",
+  maxPrice: "maxPrice",
+  sort: "sort",
+};
+
+// The fields filterLands reads
+export interface FilterableLand {
+  id: bigint;
+  surveyNumber: string;
+  location: string;
+  state: string;
+  price: bigint;
+  listedAt: bigint;
+  metadata: LandMetadata | null;
+}
+
+export function parseLandFilters(params: URLSearchParams): LandFilters {
+  const filters = { ...DEFAULT_LAND_FILTERS };
+  for (const key of Object.keys(QUERY_KEYS) as (keyof LandFilters)[]) {
+    const value = params.get(QUERY_KEYS[key]);
+    if (value !== null) (filters[key] as string) = value;
+  }
+  if (!["all", "forSale", "mine"].includes(filters.view)) {
+    filters.view = DEFAULT_LAND_FILTERS.view;
+  }
+  if (!(filters.sort in LAND_SORT_LABELS)) {
+    filters.sort = DEFAULT_LAND_FILTERS.sort;
+  }
+  return filters;
+}
+
+// Defaults are left out so the plain page keeps a clean URL
+export function landFiltersToQuery(filters: LandFilters): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(QUERY_KEYS) as (keyof LandFilters)[]) {
+    if (filters[key] !== DEFAULT_LAND_FILTERS[key]) {
+      params.set(QUERY_KEYS[key], filters[key]);
+    }
+  }
+  return params.toString();
+}
+
+// Filters beyond the view, which the contract's index sets already cover
+export function hasActiveLandFilters(filters: LandFilters): boolean {
+  return (
+    !!filters.query.trim() ||
+    !!filters.state ||
+    !!filters.district.trim() ||
+    !!filters.landType ||
+    !!filters.minPrice ||
+    !!filters.maxPrice
+  );
+}
+
+// Filtering or re-sorting is only complete once every page of the view is loaded
+export function needsAllLands(filters: LandFilters): boolean {
+  return (
+    hasActiveLandFilters(filters) || filters.sort !== DEFAULT_LAND_FILTERS.sort
+  );
+}
+
+function toWei(eth: string): bigint | null {
+  try {
+    return eth ? parseEther(eth) : null;
+  } catch {
+    return null;
+  }
+}
+
+function sameText(a: unknown, b: string): boolean {
+  return typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+}
+
+export function filterLands<T extends FilterableLand>(
+  lands: T[],
+  filters: LandFilters,
+): T[] {
+  const query = filters.query.trim().toLowerCase();
+  const district = filters.district.trim();
+  const minPrice = toWei(filters.minPrice);
+  const maxPrice = toWei(filters.maxPrice);
+
+  return lands.filter((land) => {
+    // District and land type only exist in the metadata
+    const properties = land.metadata?.properties;
+    if (
+      query &&
+      !land.location.toLowerCase().includes(query) &&
+      !land.surveyNumber.toLowerCase().includes(query)
+    ) {
+      return false;
+    }
+    if (filters.state && land.state !== filters.state) return false;
+    if (district && !sameText(properties?.district, district)) return false;
+    if (filters.landType && !sameText(properties?.landType, filters.landType)) {
+      return false;
+    }
+    if (minPrice !== null && land.price < minPrice) return false;
+    if (maxPrice !== null && land.price > maxPrice) return false;
+    return true;
+  });
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function sortLands<T extends FilterableLand>(
+  lands: T[],
+  sort: LandSort,
+): T[] {
+  const sorted = [...lands];
+  switch (sort) {
+    case "idAsc":
+      return sorted.sort((a, b) => compareBigInt(a.id, b.id));
+    case "idDesc":
+      return sorted.sort((a, b) => compareBigInt(b.id, a.id));
+    case "priceAsc":
+      return sorted.sort((a, b) => compareBigInt(a.price, b.price));
+    case "priceDesc":
+      return sorted.sort((a, b) => compareBigInt(b.price, a.price));
+    case "recentlyListed":
+      // Unlisted lands have listedAt 0 and sink to the end
+      return sorted.sort((a, b) => compareBigInt(b.listedAt, a.listedAt));
+  }
+}
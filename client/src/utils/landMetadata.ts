@@ -0,0 +1,200 @@
+import { Contract } from "ethers";
+import { PolygonGeometry } from "./geometry";
+import { signUpload } from "./uploadAuth";
+
+// Token metadata written by createLandMetadata, here and by the government
+// import in scripts/governmentLands.ts
+export interface LandMetadata {
+  name: string;
+  description: string;
+  image: string;
+  attributes: {
+    trait_type: string;
+    value: string | number;
+  }[];
+  properties: {
+    location: string;
+    area: string;
+    surveyNumber: string;
+    district: string;
+    state: string;
+    owner: string;
+    landType: string;
+    coordinates: { lat: number; lng: number };
+    // Its keccak256 hash is committed on chain as Land.boundaryHash
+    boundary: PolygonGeometry;
+  };
+}
+
+const IPFS_GATEWAY =
+  process.env.NEXT_PUBLIC_IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+
+// Unreachable gateways would otherwise hold up the whole land list
+const METADATA_TIMEOUT_MS = 8000;
+const STORED_METADATA_PREFIX = "landMetadata:";
+
+// Resolves token URIs and the image URIs inside their metadata
+export function resolveTokenURI(tokenURI: string): string {
+  if (tokenURI.startsWith("ipfs://")) {
+    const path = tokenURI.slice("ipfs://".length).replace(/^ipfs\//, "");
+    return `${IPFS_GATEWAY}${path}`;
+  }
+  return tokenURI;
+}
+
+export const LAND_TYPES = [
+  "agricultural",
+  "residential",
+  "commercial",
+  "industrial",
+  "forest",
+  "government",
+];
+
+export function getPlaceholderImage(landType: string): string {
+  const images: Record<string, string> = {
+    agricultural:
+      "https://images.unsplash.com/photo-1500382017468-9049fed747ef?w=800",
+    residential:
+      "https://images.unsplash.com/photo-1564013799919-ab600027ffc6?w=800",
+    commercial:
+      "https://images.unsplash.com/photo-1486406146926-c627a92ad1ab?w=800",
+    industrial:
+      "https://images.unsplash.com/photo-1565715101086-e93e60a11c6f?w=800",
+    forest:
+      "https://images.unsplash.com/photo-1448375240586-882707db888b?w=800",
+    government:
+      "https://images.unsplash.com/photo-1555848962-6e79363ec58f?w=800",
+  };
+  return images[landType] || images.government;
+}
+
+export interface LandDetails {
+  surveyNumber: string;
+  location: string;
+  district: string;
+  state: string;
+  area: string; // e.g. "5000 sq meters"
+  landType: string;
+  price: string; // ETH
+  description: string;
+  owner: string;
+  coordinates: { lat: number; lng: number };
+  boundary: PolygonGeometry;
+}
+
+// Same document createLandMetadata builds for the government dataset
+export function createLandMetadata(details: LandDetails): LandMetadata {
+  return {
+    name: `Land - ${details.surveyNumber}`,
+    description: details.description,
+    image: getPlaceholderImage(details.landType),
+    attributes: [
+      { trait_type: "Survey Number", value: details.surveyNumber },
+      { trait_type: "District", value: details.district },
+      { trait_type: "State", value: details.state },
+      { trait_type: "Area", value: details.area },
+      { trait_type: "Land Type", value: details.landType },
+      { trait_type: "Price (ETH)", value: parseFloat(details.price) },
+      { trait_type: "Owner", value: details.owner },
+    ],
+    properties: {
+      location: details.location,
+      area: details.area,
+      surveyNumber: details.surveyNumber,
+      district: details.district,
+      state: details.state,
+      owner: details.owner,
+      landType: details.landType,
+      coordinates: details.coordinates,
+      boundary: details.boundary,
+    },
+  };
+}
+
+// Pins the metadata (and optional image) through the server-side route and
+// returns the token URI to register with. The upload is signed by the
+// contract's wallet, which must be a registrar for the parcel's state.
+export async function uploadLandMetadata(
+  contract: Contract,
+  metadata: LandMetadata,
+  image?: File | null,
+): Promise<string> {
+  const json = JSON.stringify(metadata);
+  const body = new FormData();
+  body.append("metadata", json);
+  if (image) body.append("image", image);
+  await signUpload(contract, body, "metadata", [
+    new TextEncoder().encode(json),
+    ...(image ? [await image.arrayBuffer()] : []),
+  ]);
+
+  const response = await fetch("/api/metadata", { method: "POST", body });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      `Metadata upload failed: ${result.error || response.statusText}`,
+    );
+  }
+  return result.tokenURI;
+}
+
+// Content behind an ipfs:// URI never changes, so it can outlive the page
+function readStoredMetadata(tokenURI: string): LandMetadata | null {
+  if (!tokenURI.startsWith("ipfs://")) return null;
+  try {
+    const stored = localStorage.getItem(STORED_METADATA_PREFIX + tokenURI);
+    return stored ? (JSON.parse(stored) as LandMetadata) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeMetadata(tokenURI: string, metadata: LandMetadata) {
+  if (!tokenURI.startsWith("ipfs://")) return;
+  try {
+    localStorage.setItem(
+      STORED_METADATA_PREFIX + tokenURI,
+      JSON.stringify(metadata),
+    );
+  } catch {
+    // Storage full or disabled - the in-memory cache still applies
+  }
+}
+
+async function loadLandMetadata(
+  tokenURI: string,
+): Promise<LandMetadata | null> {
+  const stored = readStoredMetadata(tokenURI);
+  if (stored) return stored;
+
+  try {
+    const response = await fetch(resolveTokenURI(tokenURI), {
+      signal: AbortSignal.timeout(METADATA_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    const metadata = (await response.json()) as LandMetadata;
+    storeMetadata(tokenURI, metadata);
+    return metadata;
+  } catch {
+    return null;
+  }
+}
+
+const metadataCache = new Map<string, Promise<LandMetadata | null>>();
+
+// Resolves to null when the metadata is unreachable; failures are not cached
+// so the next refresh tries again.
+export function fetchLandMetadata(
+  tokenURI: string,
+): Promise<LandMetadata | null> {
+  const cached = metadataCache.get(tokenURI);
+  if (cached) return cached;
+
+  const request = loadLandMetadata(tokenURI).then((metadata) => {
+    if (!metadata) metadataCache.delete(tokenURI);
+    return metadata;
+  });
+  metadataCache.set(tokenURI, request);
+  return request;
+}
@@ -0,0 +1,141 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { LAND_TYPES, LandMetadata } from "./landMetadata";
+
+// Shared by the metadata API route and the scripts in the repository root,
+// so uploads and the import pipeline accept exactly the same metadata.
+
+export interface ValidationIssue {
+  surveyNumber: string;
+  field: string;
+  message: string;
+}
+
+// Same format parseAreaSqMeters reads, e.g. "5000 sq meters"
+export const AREA_PATTERN = "^\\d+(\\.\\d+)? ?sq\\.? ?m(eters?)?$";
+
+export const nonEmptyString = { type: "string", minLength: 1 };
+
+export const coordinatesSchema = {
+  type: "object",
+  required: ["lat", "lng"],
+  additionalProperties: false,
+  properties: {
+    lat: { type: "number", minimum: -90, maximum: 90 },
+    lng: { type: "number", minimum: -180, maximum: 180 },
+  },
+};
+
+// GeoJSON [longitude, latitude]
+const positionSchema = {
+  type: "array",
+  minItems: 2,
+  maxItems: 2,
+  items: [
+    { type: "number", minimum: -180, maximum: 180 },
+    { type: "number", minimum: -90, maximum: 90 },
+  ],
+};
+
+const polygonSchema = {
+  type: "object",
+  required: ["type", "coordinates"],
+  properties: {
+    type: { type: "string", const: "Polygon" },
+    coordinates: {
+      type: "array",
+      minItems: 1,
+      items: { type: "array", minItems: 4, items: positionSchema },
+    },
+  },
+};
+
+const landMetadataSchema = {
+  type: "object",
+  required: ["name", "description", "image", "attributes", "properties"],
+  properties: {
+    name: nonEmptyString,
+    description: { type: "string" },
+    image: nonEmptyString,
+    attributes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["trait_type", "value"],
+        properties: {
+          trait_type: nonEmptyString,
+          value: { type: ["string", "number"] },
+        },
+      },
+    },
+    properties: {
+      type: "object",
+      required: [
+        "location",
+        "area",
+        "surveyNumber",
+        "district",
+        "state",
+        "owner",
+        "landType",
+        "coordinates",
+        "boundary",
+      ],
+      properties: {
+        location: nonEmptyString,
+        area: { type: "string", pattern: AREA_PATTERN },
+        surveyNumber: nonEmptyString,
+        district: nonEmptyString,
+        state: nonEmptyString,
+        owner: nonEmptyString,
+        landType: { type: "string", enum: LAND_TYPES },
+        coordinates: coordinatesSchema,
+        boundary: polygonSchema,
+      },
+    },
+  },
+};
+
+export const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validateLandMetadataRecord: ValidateFunction<LandMetadata> =
+  ajv.compile(landMetadataSchema);
+
+// "/coordinates/lat" -> "coordinates.lat", naming the missing or unexpected
+// key itself for required / additionalProperties errors
+function fieldOf(error: ErrorObject): string {
+  const parts = error.instancePath.split("/").filter(Boolean);
+  if (error.keyword === "required") parts.push(error.params.missingProperty);
+  if (error.keyword === "additionalProperties") {
+    parts.push(error.params.additionalProperty);
+  }
+  return parts.join(".") || "(record)";
+}
+
+export function toIssues(
+  surveyNumber: string,
+  errors: ErrorObject[] | null | undefined,
+): ValidationIssue[] {
+  return (errors ?? []).map((error) => ({
+    surveyNumber,
+    field: fieldOf(error),
+    message:
+      error.keyword === "enum"
+        ? `must be one of ${error.params.allowedValues.join(", ")}`
+        : error.message || "is invalid",
+  }));
+}
+
+export function surveyNumberOf(record: unknown, fallback: string): string {
+  const surveyNumber = (record as { surveyNumber?: unknown })?.surveyNumber;
+  return typeof surveyNumber === "string" && surveyNumber
+    ? surveyNumber
+    : fallback;
+}
+
+export function validateLandMetadata(metadata: unknown): ValidationIssue[] {
+  if (validateLandMetadataRecord(metadata)) return [];
+  const surveyNumber = surveyNumberOf(
+    (metadata as { properties?: unknown })?.properties,
+    "(unknown)",
+  );
+  return toIssues(surveyNumber, validateLandMetadataRecord.errors);
+}
@@ -0,0 +1,257 @@
+import { Contract, EventLog } from "ethers";
+import { Coordinates, fromFixedPoint } from "./coordinates";
+import {
+  PolygonGeometry,
+  boundaryHash,
+  polygonContains,
+  polygonsOverlap,
+} from "./geometry";
+import { LandMetadata, fetchLandMetadata } from "./landMetadata";
+
+export interface Land {
+  id: bigint;
+  surveyNumber: string;
+  location: string;
+  state: string;
+  coordinates: Coordinates;
+  boundaryHash: string;
+  boundary?: PolygonGeometry;
+  price: bigint;
+  isForSale: boolean;
+  seller: string;
+  owner: string;
+  listedAt: bigint;
+  // Unreleased liens; the title cannot be sold or transferred while any remain
+  activeLiens: bigint;
+  // null when the token URI could not be resolved
+  metadata: LandMetadata | null;
+}
+
+// Land struct as returned by the contract, before coordinates are decoded
+export type OnChainLand = Omit<
+  Land,
+  "coordinates" | "owner" | "boundary" | "metadata"
+> & {
+  latitude: bigint;
+  longitude: bigint;
+};
+
+async function fetchMetadata(
+  contract: Contract,
+  land: OnChainLand,
+): Promise<LandMetadata | null> {
+  try {
+    return await fetchLandMetadata(await contract.tokenURI(land.id));
+  } catch {
+    return null;
+  }
+}
+
+// Boundary from the token metadata, kept only if it matches the hash on chain
+function verifiedBoundary(
+  land: OnChainLand,
+  metadata: LandMetadata | null,
+): PolygonGeometry | undefined {
+  const boundary = metadata?.properties?.boundary;
+  if (!boundary) return undefined;
+  if (boundaryHash(boundary) !== land.boundaryHash) {
+    console.warn(`Boundary of land #${land.id} does not match its hash`);
+    return undefined;
+  }
+  return boundary;
+}
+
+export async function toClientLands(
+  contract: Contract,
+  onChainLands: OnChainLand[],
+): Promise<Land[]> {
+  // The cached seller field can lag behind ERC-721 ownership, so the
+  // owner shown in the UI always comes from ownerOf.
+  const [owners, metadataList] = await Promise.all([
+    Promise.all(
+      onChainLands.map((land): Promise<string> => contract.ownerOf(land.id)),
+    ),
+    Promise.all(onChainLands.map((land) => fetchMetadata(contract, land))),
+  ]);
+  return onChainLands.map((land, index) => ({
+    id: land.id,
+    surveyNumber: land.surveyNumber,
+    location: land.location,
+    state: land.state,
+    coordinates: {
+      lat: fromFixedPoint(land.latitude),
+      lng: fromFixedPoint(land.longitude),
+    },
+    boundaryHash: land.boundaryHash,
+    boundary: verifiedBoundary(land, metadataList[index]),
+    price: land.price,
+    isForSale: land.isForSale,
+    seller: land.seller,
+    owner: owners[index],
+    listedAt: land.listedAt,
+    activeLiens: land.activeLiens,
+    metadata: metadataList[index],
+  }));
+}
+
+const OVERLAP_CHECK_PAGE_SIZE = 100;
+
+// Ids of every registered land whose boundary overlaps the given one, not just
+// the pages loaded so far. Lands whose boundary metadata cannot be loaded or
+// verified are compared by their on-chain centre point instead.
+export async function findOverlappingLands(
+  contract: Contract,
+  boundary: PolygonGeometry,
+): Promise<bigint[]> {
+  const total: bigint = await contract.nextTokenId();
+  const overlapping: bigint[] = [];
+  for (
+    let offset = BigInt(0);
+    offset < total;
+    offset += BigInt(OVERLAP_CHECK_PAGE_SIZE)
+  ) {
+    const page: OnChainLand[] = await contract.getLands(
+      offset,
+      OVERLAP_CHECK_PAGE_SIZE,
+    );
+    const metadataList = await Promise.all(
+      page.map((land) => fetchMetadata(contract, land)),
+    );
+    page.forEach((land, index) => {
+      const existing = verifiedBoundary(land, metadataList[index]);
+      const overlaps = existing
+        ? polygonsOverlap(existing, boundary)
+        : polygonContains(boundary, [
+            fromFixedPoint(land.longitude),
+            fromFixedPoint(land.latitude),
+          ]);
+      if (overlaps) overlapping.push(land.id);
+    });
+  }
+  return overlapping;
+}
+
+// Null when no land has this id
+export async function fetchLand(
+  contract: Contract,
+  id: bigint,
+): Promise<Land | null> {
+  if (id < BigInt(0) || id >= (await contract.nextTokenId())) return null;
+  const [land] = await toClientLands(contract, await contract.getLands(id, 1));
+  return land ?? null;
+}
+
+// Null when no land carries this survey number
+export async function fetchLandBySurveyNumber(
+  contract: Contract,
+  surveyNumber: string,
+): Promise<Land | null> {
+  if (!(await contract.isSurveyNumberRegistered(surveyNumber))) return null;
+  return fetchLand(
+    contract,
+    await contract.getTokenIdBySurveyNumber(surveyNumber),
+  );
+}
+
+export interface OwnershipChange {
+  // Zero address for the registration mint
+  from: string;
+  to: string;
+  // Set when the transfer was a buyLand sale
+  price?: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+// Oldest first, from the token's Transfer events; sales are matched to their
+// LandSold event by transaction
+export async function fetchOwnershipHistory(
+  contract: Contract,
+  id: bigint,
+  // The deployment block; nothing earlier can involve the contract
+  fromBlock = 0,
+): Promise<OwnershipChange[]> {
+  const [transfers, sales] = await Promise.all([
+    contract.queryFilter(contract.filters.Transfer(null, null, id), fromBlock),
+    contract.queryFilter(contract.filters.LandSold(id), fromBlock),
+  ]);
+  const salePrices = new Map(
+    sales.map((sale) => [
+      sale.transactionHash,
+      (sale as EventLog).args.price as bigint,
+    ]),
+  );
+
+  const timestamps = new Map<number, number>();
+  await Promise.all(
+    [...new Set(transfers.map((transfer) => transfer.blockNumber))].map(
+      async (blockNumber) => {
+        const block = await contract.runner?.provider?.getBlock(blockNumber);
+        timestamps.set(blockNumber, block?.timestamp ?? 0);
+      },
+    ),
+  );
+
+  return transfers.map((transfer) => {
+    const { from, to } = (transfer as EventLog).args;
+    return {
+      from,
+      to,
+      price: salePrices.get(transfer.transactionHash),
+      blockNumber: transfer.blockNumber,
+      transactionHash: transfer.transactionHash,
+      timestamp: timestamps.get(transfer.blockNumber) ?? 0,
+    };
+  });
+}
+
+export interface PurchaseQuote {
+  price: bigint;
+  stampDuty: bigint;
+  stampDutyBps: bigint;
+  // What buyLand must be sent; anything above it is refunded
+  total: bigint;
+  // Non-zero when the payment is held for registrar approval this long
+  escrowPeriod: bigint;
+  // Deployment the quote was read from; buyLand must go to the same one
+  chainId: bigint;
+  registry: string;
+}
+
+async function registryOf(
+  contract: Contract,
+): Promise<{ chainId: bigint; registry: string }> {
+  const [{ chainId }, registry] = await Promise.all([
+    contract.runner!.provider!.getNetwork(),
+    contract.getAddress(),
+  ]);
+  return { chainId, registry };
+}
+
+// Whether a transaction from the contract reaches the deployment that
+// produced the quote
+export async function isQuotedBy(
+  contract: Contract,
+  quote: PurchaseQuote,
+): Promise<boolean> {
+  const { chainId, registry } = await registryOf(contract);
+  return (
+    chainId === quote.chainId &&
+    registry.toLowerCase() === quote.registry.toLowerCase()
+  );
+}
+
+export async function fetchPurchaseQuote(
+  contract: Contract,
+  land: Land,
+): Promise<PurchaseQuote> {
+  const [[price, stampDuty, total], stampDutyBps, escrowPeriod, deployment] =
+    await Promise.all([
+      contract.quotePurchase(land.id),
+      contract.stampDutyBps(land.state),
+      contract.escrowPeriod(),
+      registryOf(contract),
+    ]);
+  return { price, stampDuty, stampDutyBps, total, escrowPeriod, ...deployment };
+}
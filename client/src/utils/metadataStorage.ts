@@ -0,0 +1,17 @@
+import * as path from "path";
+import { StorageProvider, createStorageProvider } from "./storageProviders";
+
+// Server-side only: used by the API routes, never bundled for the browser.
+// The providers are the ones the scripts use and read the same environment
+// variables, so the local store is shared with the scripts and served by
+// `npm run gateway` in the repository root.
+
+let provider: StorageProvider | undefined;
+
+export function getStorageProvider(): StorageProvider {
+  // Next runs from client/
+  provider ??= createStorageProvider(
+    path.resolve(process.cwd(), "../.storage/ipfs"),
+  );
+  return provider;
+}
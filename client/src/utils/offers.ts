@@ -0,0 +1,99 @@
+import { Contract, ZeroAddress } from "ethers";
+import { OnChainLand } from "./lands";
+
+// Same order as OfferStatus in LandRegistry.sol
+export const OFFER_STATUSES = [
+  "Open",
+  "Accepted",
+  "Rejected",
+  "Withdrawn",
+] as const;
+export type OfferStatus = (typeof OFFER_STATUSES)[number];
+
+// Offer struct as returned by getOffers, with its position in the list
+export interface LandOffer {
+  index: number;
+  buyer: string;
+  price: bigint;
+  // Held with the price; recomputed if the buyer takes a counter
+  stampDuty: bigint;
+  // Unix seconds
+  expiresAt: bigint;
+  counterPrice: bigint;
+  counteredBy: string;
+  status: OfferStatus;
+}
+
+// An open offer on one of the account's parcels
+export interface IncomingOffer extends LandOffer {
+  landId: bigint;
+  surveyNumber: string;
+  state: string;
+}
+
+export async function fetchLandOffers(
+  contract: Contract,
+  landId: bigint,
+): Promise<LandOffer[]> {
+  const offers = await contract.getOffers(landId);
+  return offers.map(
+    (
+      offer: Omit<LandOffer, "index" | "status"> & { status: bigint },
+      index: number,
+    ) => ({
+      index,
+      buyer: offer.buyer,
+      price: offer.price,
+      stampDuty: offer.stampDuty,
+      expiresAt: offer.expiresAt,
+      counterPrice: offer.counterPrice,
+      counteredBy: offer.counteredBy,
+      status: OFFER_STATUSES[Number(offer.status)],
+    }),
+  );
+}
+
+export async function fetchIncomingOffers(
+  contract: Contract,
+  owner: string,
+): Promise<IncomingOffer[]> {
+  const count = await contract.balanceOf(owner);
+  const lands: OnChainLand[] = await contract.getLandsByOwner(owner, 0, count);
+  const offers = await Promise.all(
+    lands.map(async (land) =>
+      (await fetchLandOffers(contract, land.id))
+        .filter((offer) => isOfferOpen(offer))
+        .map((offer) => ({
+          ...offer,
+          landId: land.id,
+          surveyNumber: land.surveyNumber,
+          state: land.state,
+        })),
+    ),
+  );
+  return offers.flat();
+}
+
+// Still open and unexpired; expired offers can only be withdrawn
+export function isOfferOpen(offer: LandOffer, now = Date.now()) {
+  return offer.status === "Open" && Number(offer.expiresAt) * 1000 >= now;
+}
+
+// Counters lapse once the parcel changes hands
+export function activeCounter(offer: LandOffer, owner: string): bigint | null {
+  return offer.counterPrice > BigInt(0) &&
+    offer.counteredBy !== ZeroAddress &&
+    offer.counteredBy.toLowerCase() === owner.toLowerCase()
+    ? offer.counterPrice
+    : null;
+}
+
+// Stamp duty the contract charges on a price at the given rate
+export function stampDutyOn(price: bigint, stampDutyBps: bigint): bigint {
+  return (price * stampDutyBps) / BigInt(10000);
+}
+
+// Unix seconds, the form makeOffer takes
+export function offerExpiry(days: number, now = Date.now()): number {
+  return Math.floor(now / 1000) + days * 24 * 60 * 60;
+}
@@ -0,0 +1,56 @@
+import { Contract, EventLog, ZeroAddress } from "ethers";
+
+// A sale held in escrow until a registrar for the parcel's state decides
+export interface PendingTransfer {
+  landId: bigint;
+  surveyNumber: string;
+  state: string;
+  buyer: string;
+  seller: string;
+  price: bigint;
+  stampDuty: bigint;
+  // Unix seconds; after it the buyer can reclaim the payment
+  deadline: bigint;
+}
+
+// Requests come from TransferRequested events; the pendingTransfers mapping
+// says which are still open
+export async function fetchPendingTransfers(
+  contract: Contract,
+  fromBlock = 0,
+): Promise<PendingTransfer[]> {
+  const requests = await contract.queryFilter(
+    contract.filters.TransferRequested(),
+    fromBlock,
+  );
+  const ids = [
+    ...new Set(requests.map((request) => (request as EventLog).args.id)),
+  ] as bigint[];
+
+  const transfers = await Promise.all(
+    ids.map(async (landId) => {
+      const [pending, land] = await Promise.all([
+        contract.pendingTransfers(landId),
+        contract.lands(landId),
+      ]);
+      if (pending.buyer === ZeroAddress) return null;
+      return {
+        landId,
+        surveyNumber: land.surveyNumber,
+        state: land.state,
+        buyer: pending.buyer,
+        seller: pending.seller,
+        price: pending.price,
+        stampDuty: pending.stampDuty,
+        deadline: pending.deadline,
+      };
+    }),
+  );
+  return transfers.filter(
+    (transfer): transfer is PendingTransfer => transfer !== null,
+  );
+}
+
+export function isExpired(transfer: PendingTransfer, now = Date.now()) {
+  return Number(transfer.deadline) * 1000 < now;
+}
@@ -0,0 +1,44 @@
+import { Contract, JsonRpcProvider, Network } from "ethers";
+import { DEFAULT_DEPLOYMENT, Deployment, getDeployment } from "./deployments";
+
+// The deploy scripts record each chain's public endpoint as rpcUrl;
+// NEXT_PUBLIC_RPC_URL overrides it for the default chain, e.g. to point at a
+// hosted provider.
+function rpcUrlFor(deployment: Deployment): string | undefined {
+  if (
+    process.env.NEXT_PUBLIC_RPC_URL &&
+    deployment.chainId === DEFAULT_DEPLOYMENT?.chainId
+  ) {
+    return process.env.NEXT_PUBLIC_RPC_URL;
+  }
+  return deployment.rpcUrl;
+}
+
+const readOnlyContracts = new Map<number, Contract | null>();
+
+// Reads lands for visitors without a wallet, from the given chain or the
+// default one. Null when that deployment has no public endpoint, in which
+// case reading needs a connected wallet.
+export function getReadOnlyContract(chainId?: number): Contract | null {
+  const deployment =
+    chainId === undefined ? DEFAULT_DEPLOYMENT : getDeployment(chainId);
+  if (!deployment) return null;
+
+  const cached = readOnlyContracts.get(deployment.chainId);
+  if (cached !== undefined) return cached;
+
+  const rpcUrl = rpcUrlFor(deployment);
+  let contract: Contract | null = null;
+  if (rpcUrl) {
+    // A fixed network skips chain detection, which retries forever when the
+    // endpoint is down
+    const provider = new JsonRpcProvider(
+      rpcUrl,
+      Network.from(deployment.chainId),
+      { staticNetwork: true },
+    );
+    contract = new Contract(deployment.address, deployment.abi, provider);
+  }
+  readOnlyContracts.set(deployment.chainId, contract);
+  return contract;
+}
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { PinataSDK } from "pinata";
+
+// Node only: shared by the API routes and the scripts in the repository
+// root, so both pin content under the same CIDs. Never bundle for the browser.
+
+export interface StoredObject {
+  cid: string;
+  uri: string; // ipfs://<cid>
+}
+
+// Somewhere to put content-addressed metadata and files. Every provider
+// returns ipfs:// URIs so token URIs do not depend on where they were pinned.
+export interface StorageProvider {
+  readonly name: string;
+  // Pause between consecutive uploads in bulk imports
+  readonly uploadDelayMs: number;
+  uploadJSON(name: string, data: object): Promise<StoredObject>;
+  uploadFile(
+    name: string,
+    content: Buffer,
+    contentType: string,
+  ): Promise<StoredObject>;
+}
+
+export class PinataStorageProvider implements StorageProvider {
+  readonly name = "pinata";
+  readonly uploadDelayMs = 300; // Stay under Pinata's rate limit
+  private readonly pinata: PinataSDK;
+
+  constructor(jwt: string) {
+    this.pinata = new PinataSDK({
+      pinataJwt: jwt,
+      pinataGateway: process.env.PINATA_GATEWAY || "gateway.pinata.cloud",
+    });
+  }
+
+  async uploadJSON(name: string, data: object): Promise<StoredObject> {
+    const result = await this.pinata.upload.public.json(data).name(name);
+    return { cid: result.cid, uri: `ipfs://${result.cid}` };
+  }
+
+  async uploadFile(
+    name: string,
+    content: Buffer,
+    contentType: string,
+  ): Promise<StoredObject> {
+    const file = new File([new Uint8Array(content)], name, {
+      type: contentType,
+    });
+    const result = await this.pinata.upload.public.file(file);
+    return { cid: result.cid, uri: `ipfs://${result.cid}` };
+  }
+}
+
+interface StoredInfo {
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// IPFS splits larger files into blocks of this size
+export const IPFS_BLOCK_SIZE = 256 * 1024;
+
+// CIDv1 with the raw codec and a sha2-256 multihash, base32 encoded. This is
+// the CID `ipfs add --cid-version=1 --raw-leaves` gives a file of up to
+// IPFS_BLOCK_SIZE bytes, so such content can later be pinned unchanged.
+// Larger files are still hashed as one block here, while IPFS chunks them
+// into a DAG with a different root CID; re-pinning those changes their URI.
+export function computeCid(content: Buffer): string {
+  const digest = createHash("sha256").update(content).digest();
+  // version 1, raw (0x55), sha2-256 (0x12), 32-byte digest
+  const bytes = Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]);
+  return `b${base32(bytes)}`;
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local";
+  readonly uploadDelayMs = 0;
+
+  constructor(private readonly rootDir: string) {}
+
+  async uploadJSON(name: string, data: object): Promise<StoredObject> {
+    return this.put(
+      name,
+      Buffer.from(JSON.stringify(data)),
+      "application/json",
+    );
+  }
+
+  async uploadFile(
+    name: string,
+    content: Buffer,
+    contentType: string,
+  ): Promise<StoredObject> {
+    return this.put(name, content, contentType);
+  }
+
+  // Returns null for unknown CIDs and for files whose content no longer
+  // matches their CID.
+  get(cid: string): { content: Buffer; info: StoredInfo } | null {
+    if (!/^b[a-z2-7]+$/.test(cid)) return null;
+    const contentPath = path.join(this.rootDir, cid);
+    if (!fs.existsSync(contentPath)) return null;
+
+    const content = fs.readFileSync(contentPath);
+    if (computeCid(content) !== cid) {
+      console.warn(`⚠️ Stored content for ${cid} is corrupt - ignoring`);
+      return null;
+    }
+    const info: StoredInfo = JSON.parse(
+      fs.readFileSync(`${contentPath}.json`, "utf8"),
+    );
+    return { content, info };
+  }
+
+  private put(
+    name: string,
+    content: Buffer,
+    contentType: string,
+  ): StoredObject {
+    const cid = computeCid(content);
+    const contentPath = path.join(this.rootDir, cid);
+
+    // Content addressing makes re-uploads of the same bytes free
+    if (!fs.existsSync(contentPath)) {
+      if (content.length > IPFS_BLOCK_SIZE) {
+        console.warn(
+          `⚠️ ${name} is over ${IPFS_BLOCK_SIZE / 1024} KiB - its local CID will differ from the one IPFS gives it`,
+        );
+      }
+      fs.mkdirSync(this.rootDir, { recursive: true });
+      const info: StoredInfo = { name, contentType, size: content.length };
+      fs.writeFileSync(`${contentPath}.json`, JSON.stringify(info, null, 2));
+      fs.writeFileSync(contentPath, content);
+    }
+    return { cid, uri: `ipfs://${cid}` };
+  }
+}
+
+// STORAGE_PROVIDER picks the backend; without it Pinata is used when a JWT is
+// configured and the local store otherwise. LOCAL_STORAGE_DIR overrides
+// defaultLocalDir, which each caller resolves to the repository's
+// .storage/ipfs from where it runs.
+export function createStorageProvider(
+  defaultLocalDir: string,
+): StorageProvider {
+  const jwt = process.env.PINATA_JWT;
+  const hasJwt = !!jwt && jwt !== "your_pinata_jwt_here";
+  const selected =
+    process.env.STORAGE_PROVIDER || (hasJwt ? "pinata" : "local");
+
+  switch (selected) {
+    case "pinata":
+      if (!hasJwt) {
+        throw new Error("STORAGE_PROVIDER=pinata requires PINATA_JWT");
+      }
+      return new PinataStorageProvider(jwt!);
+    case "local":
+      return new LocalStorageProvider(
+        process.env.LOCAL_STORAGE_DIR || defaultLocalDir,
+      );
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER: ${selected}`);
+  }
+}
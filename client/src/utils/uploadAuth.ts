@@ -0,0 +1,98 @@
+import { Contract, Signer, verifyMessage } from "ethers";
+import { getReadOnlyContract } from "./readProvider";
+
+// How long a signed upload request is accepted for
+const UPLOAD_AUTH_MAX_AGE_MS = 10 * 60 * 1000;
+
+export type UploadAction = "metadata" | "document";
+
+// 0x-prefixed sha256
+export async function sha256Hex(content: BufferSource): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", content));
+  return `0x${Array.from(digest, (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("")}`;
+}
+
+// What the wallet signs. It names the chain whose registry authorises the
+// upload and the sha256 of every file, so a signature cannot be replayed for
+// other content.
+function uploadAuthMessage(
+  action: UploadAction,
+  chainId: number,
+  contentHashes: string[],
+  issuedAt: number,
+): string {
+  return [
+    `Land Registry ${action} upload`,
+    `Chain: ${chainId}`,
+    ...contentHashes.map((hash) => `Content: ${hash}`),
+    `Issued: ${new Date(issuedAt).toISOString()}`,
+  ].join("\n");
+}
+
+// Asks the contract's wallet to sign the upload and adds the signature to
+// the form the upload route receives
+export async function signUpload(
+  contract: Contract,
+  body: FormData,
+  action: UploadAction,
+  contents: BufferSource[],
+  issuedAt = Date.now(),
+): Promise<void> {
+  const signer = contract.runner as Signer;
+  const { chainId } = await signer.provider!.getNetwork();
+  const contentHashes = await Promise.all(contents.map(sha256Hex));
+  const signature = await signer.signMessage(
+    uploadAuthMessage(action, Number(chainId), contentHashes, issuedAt),
+  );
+  body.append("chainId", chainId.toString());
+  body.append("issuedAt", issuedAt.toString());
+  body.append("signature", signature);
+}
+
+export type VerifiedUpload =
+  { account: string; contract: Contract } | { error: string; status: number };
+
+// Server side: recovers the signing account and returns the registry it must
+// hold a role on. Only chains with a recorded deployment and RPC endpoint
+// are accepted.
+export async function verifyUpload(
+  form: FormData,
+  action: UploadAction,
+  contents: BufferSource[],
+  now = Date.now(),
+): Promise<VerifiedUpload> {
+  const chainId = Number(form.get("chainId"));
+  const issuedAt = Number(form.get("issuedAt"));
+  const signature = form.get("signature");
+  if (
+    !Number.isInteger(chainId) ||
+    !issuedAt ||
+    typeof signature !== "string"
+  ) {
+    return { error: "A signed upload request is required", status: 401 };
+  }
+  if (Math.abs(now - issuedAt) > UPLOAD_AUTH_MAX_AGE_MS) {
+    return { error: "Upload signature expired, please try again", status: 401 };
+  }
+
+  const contract = getReadOnlyContract(chainId);
+  if (!contract) {
+    return {
+      error: `No deployment to authorise chain ${chainId}`,
+      status: 403,
+    };
+  }
+
+  const contentHashes = await Promise.all(contents.map(sha256Hex));
+  try {
+    const account = verifyMessage(
+      uploadAuthMessage(action, chainId, contentHashes, issuedAt),
+      signature,
+    );
+    return { account, contract };
+  } catch {
+    return { error: "Invalid upload signature", status: 401 };
+  }
+}
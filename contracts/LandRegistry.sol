@@ -5,50 +5,814 @@ import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 contract LandRegistry is ERC721URIStorage, Ownable {
+    // Coordinates are stored as degrees * 1e6 (micro-degrees, ~0.1 m precision).
+    int32 public constant COORDINATE_SCALE = 1e6;
+
+    // Stamp duty is charged to the buyer on top of the price, in basis points.
+    uint256 public constant MAX_STAMP_DUTY_BPS = 2000;
+    // Bids this close to the end push it back by the same amount
+    uint256 public constant AUCTION_EXTENSION = 10 minutes;
+
     uint256 public nextTokenId;
+    uint256 public defaultStampDutyBps;
+    address payable public treasury;
+    // Collected stamp duty not yet withdrawn, and the all-time total
+    uint256 public treasuryBalance;
+    uint256 public totalStampDuty;
+    // How long registrars have to approve a sale; 0 settles sales immediately
+    uint256 public escrowPeriod;
 
     struct Land {
         uint256 id;
+        string surveyNumber;
         string location;
+        string state;
+        int32 latitude;
+        int32 longitude;
+        // keccak256 of the GeoJSON boundary polygon published in the token metadata
+        bytes32 boundaryHash;
         uint256 price;
         bool isForSale;
         address payable seller;
+        uint256 listedAt;
+        // Unreleased liens; the title cannot move while any remain
+        uint256 activeLiens;
+    }
+
+    // A registrar with an empty state may register anywhere in the country.
+    struct Registrar {
+        bool active;
+        string state;
+    }
+
+    // A sale paid into escrow, waiting for a registrar of the parcel's state.
+    struct PendingTransfer {
+        address payable buyer;
+        address payable seller;
+        uint256 price;
+        uint256 stampDuty;
+        uint256 deadline;
+    }
+
+    enum OfferStatus { Open, Accepted, Rejected, Withdrawn }
+
+    // An escrowed bid on a parcel, listed or not; price and stampDuty are held.
+    struct Offer {
+        address payable buyer;
+        uint256 price;
+        uint256 stampDuty;
+        uint256 expiresAt;
+        // The owner's counter; the buyer takes it by topping up the deposit
+        uint256 counterPrice;
+        address counteredBy;
+        OfferStatus status;
+    }
+
+    // English auction; the highest bid and its stamp duty are held
+    struct Auction {
+        address payable seller;
+        uint256 reservePrice;
+        uint256 minIncrement;
+        uint256 endTime;
+        address payable highestBidder;
+        uint256 highestBid;
+        uint256 stampDuty;
+    }
+
+    // A charge registered by an authorised lender, e.g. a mortgage
+    struct Lien {
+        address lender;
+        uint256 amount;
+        // Hash of the loan or mortgage deed kept off chain
+        bytes32 documentHash;
+        uint256 registeredAt;
+        bool released;
+    }
+
+    // One parcel of a registerLands batch, in registerLand parameter order.
+    struct LandRegistration {
+        string surveyNumber;
+        string location;
+        string state;
+        int32 latitude;
+        int32 longitude;
+        bytes32 boundaryHash;
+        uint256 price;
+        string tokenURI;
+    }
+
+    // A title document stored off chain; contentHash is the sha256 of the file bytes.
+    struct Document {
+        string docType;
+        string contentType;
+        string uri;
+        bytes32 contentHash;
+        address addedBy;
+        uint256 addedAt;
     }
 
     mapping(uint256 => Land) public lands;
+    mapping(address => Registrar) public registrars;
+    // keccak256(surveyNumber) => tokenId + 1, so 0 means unregistered
+    mapping(bytes32 => uint256) private surveyNumberIds;
+
+    // Index sets backing the paged reads; positions are stored 1-based so 0 means absent.
+    uint256[] private forSaleIds;
+    mapping(uint256 => uint256) private forSalePosition;
+    mapping(address => uint256[]) private ownedIds;
+    mapping(uint256 => uint256) private ownedPosition;
+    mapping(uint256 => Document[]) private landDocuments;
+    // keccak256(state) => rate + 1, so 0 falls back to defaultStampDutyBps
+    mapping(bytes32 => uint256) private stateStampDutyBps;
+    mapping(uint256 => PendingTransfer) public pendingTransfers;
+    mapping(uint256 => Offer[]) private landOffers;
+    mapping(uint256 => Auction) public auctions;
+    // Outbid deposits, and sale proceeds or escrow refunds an account did not
+    // accept, withdrawn by their owner so no bid, settlement or refund can be
+    // blocked
+    mapping(address => uint256) public pendingWithdrawals;
+    mapping(address => bool) public lenders;
+    mapping(uint256 => Lien[]) private landLiens;
+
+    event LandRegistered(
+        uint256 indexed id,
+        address indexed owner,
+        string surveyNumber,
+        string location,
+        string state,
+        int32 latitude,
+        int32 longitude,
+        bytes32 boundaryHash,
+        uint256 price,
+        string tokenURI
+    );
+    event LandSold(uint256 indexed id, address indexed seller, address indexed buyer, uint256 price);
+    event LandListed(uint256 indexed id, address indexed owner, uint256 price);
+    event LandDelisted(uint256 indexed id, address indexed owner);
+    event PriceUpdated(uint256 indexed id, uint256 oldPrice, uint256 newPrice);
+    event RegistrarGranted(address indexed account, string state);
+    event RegistrarRevoked(address indexed account);
+    event DocumentAttached(
+        uint256 indexed id,
+        uint256 index,
+        address indexed addedBy,
+        string docType,
+        string contentType,
+        bytes32 contentHash,
+        string uri
+    );
+    event StampDutyPaid(uint256 indexed id, address indexed buyer, string state, uint256 amount);
+    event StampDutySet(string state, uint256 bps);
+    event TreasuryUpdated(address indexed treasury);
+    event TreasuryWithdrawn(address indexed treasury, uint256 amount);
+    event EscrowPeriodSet(uint256 period);
+    event TransferRequested(
+        uint256 indexed id,
+        address indexed buyer,
+        address indexed seller,
+        uint256 price,
+        uint256 stampDuty,
+        uint256 deadline
+    );
+    event TransferApproved(uint256 indexed id, address indexed registrar);
+    event TransferRejected(uint256 indexed id, address indexed registrar, string reason);
+    event TransferExpired(uint256 indexed id);
+    event OfferMade(uint256 indexed id, uint256 index, address indexed buyer, uint256 price, uint256 expiresAt);
+    event OfferCountered(uint256 indexed id, uint256 index, uint256 price);
+    event OfferAccepted(uint256 indexed id, uint256 index, address indexed buyer, uint256 price);
+    event OfferRejected(uint256 indexed id, uint256 index);
+    event OfferWithdrawn(uint256 indexed id, uint256 index);
+    event AuctionStarted(uint256 indexed id, address indexed seller, uint256 reservePrice, uint256 minIncrement, uint256 endTime);
+    event AuctionBid(uint256 indexed id, address indexed bidder, uint256 amount, uint256 endTime);
+    event AuctionSettled(uint256 indexed id, address indexed winner, uint256 price);
+    event AuctionCancelled(uint256 indexed id);
+    event Withdrawn(address indexed account, uint256 amount);
+    event LenderGranted(address indexed account);
+    event LenderRevoked(address indexed account);
+    event LienRegistered(uint256 indexed id, uint256 index, address indexed lender, uint256 amount, bytes32 documentHash);
+    event LienReleased(uint256 indexed id, uint256 index, address indexed lender);
+
+    constructor() ERC721("IndiaLand", "LAND") Ownable(msg.sender) {
+        treasury = payable(msg.sender);
+    }
+
+    modifier onlyLandOwner(uint256 _id) {
+        require(ownerOf(_id) == msg.sender, "Not the land owner");
+        _;
+    }
+
+    modifier onlyRegistrarFor(string memory _state) {
+        require(canRegisterIn(msg.sender, _state), "Not a registrar for this state");
+        _;
+    }
+
+    function grantRegistrar(address _account, string memory _state) public onlyOwner {
+        require(_account != address(0), "Invalid registrar");
+        registrars[_account] = Registrar(true, _state);
+        emit RegistrarGranted(_account, _state);
+    }
+
+    function revokeRegistrar(address _account) public onlyOwner {
+        require(registrars[_account].active, "Not a registrar");
+        delete registrars[_account];
+        emit RegistrarRevoked(_account);
+    }
+
+    function grantLender(address _account) public onlyOwner {
+        require(_account != address(0), "Invalid lender");
+        lenders[_account] = true;
+        emit LenderGranted(_account);
+    }
+
+    // Liens already registered stay until the lender releases them.
+    function revokeLender(address _account) public onlyOwner {
+        require(lenders[_account], "Not a lender");
+        delete lenders[_account];
+        emit LenderRevoked(_account);
+    }
+
+    // An empty state sets the default rate for states without their own.
+    function setStampDuty(string memory _state, uint256 _bps) public onlyOwner {
+        require(_bps <= MAX_STAMP_DUTY_BPS, "Stamp duty too high");
+        if (bytes(_state).length == 0) {
+            defaultStampDutyBps = _bps;
+        } else {
+            stateStampDutyBps[keccak256(bytes(_state))] = _bps + 1;
+        }
+        emit StampDutySet(_state, _bps);
+    }
+
+    function stampDutyBps(string memory _state) public view returns (uint256) {
+        uint256 stored = stateStampDutyBps[keccak256(bytes(_state))];
+        return stored == 0 ? defaultStampDutyBps : stored - 1;
+    }
+
+    function setTreasury(address payable _treasury) public onlyOwner {
+        require(_treasury != address(0), "Invalid treasury");
+        treasury = _treasury;
+        emit TreasuryUpdated(_treasury);
+    }
 
-    constructor() ERC721("IndiaLand", "LAND") Ownable(msg.sender) {}
+    function withdrawTreasury(uint256 _amount) public {
+        require(msg.sender == treasury || msg.sender == owner(), "Not the treasury");
+        require(_amount <= treasuryBalance, "Insufficient treasury balance");
+        treasuryBalance -= _amount;
+        _pay(treasury, _amount);
+        emit TreasuryWithdrawn(treasury, _amount);
+    }
+
+    function setEscrowPeriod(uint256 _period) public onlyOwner {
+        escrowPeriod = _period;
+        emit EscrowPeriodSet(_period);
+    }
+
+    function canRegisterIn(address _account, string memory _state) public view returns (bool) {
+        if (_account == owner()) return true;
+
+        Registrar storage registrar = registrars[_account];
+        if (!registrar.active) return false;
+        if (bytes(registrar.state).length == 0) return true;
+        return keccak256(bytes(registrar.state)) == keccak256(bytes(_state));
+    }
+
+    function registerLand(
+        string memory _surveyNumber,
+        string memory _location,
+        string memory _state,
+        int32 _latitude,
+        int32 _longitude,
+        bytes32 _boundaryHash,
+        uint256 _price,
+        string memory _tokenURI
+    ) public onlyRegistrarFor(_state) {
+        _registerLand(
+            LandRegistration(
+                _surveyNumber,
+                _location,
+                _state,
+                _latitude,
+                _longitude,
+                _boundaryHash,
+                _price,
+                _tokenURI
+            )
+        );
+    }
+
+    // All-or-nothing: one invalid parcel reverts the whole batch.
+    function registerLands(LandRegistration[] calldata _lands) external {
+        require(_lands.length > 0, "No lands to register");
+        for (uint256 i = 0; i < _lands.length; i++) {
+            require(canRegisterIn(msg.sender, _lands[i].state), "Not a registrar for this state");
+            _registerLand(_lands[i]);
+        }
+    }
+
+    function _registerLand(LandRegistration memory _land) private {
+        require(bytes(_land.surveyNumber).length > 0, "Survey number required");
+        require(!isSurveyNumberRegistered(_land.surveyNumber), "Survey number already registered");
+        require(bytes(_land.state).length > 0, "State required");
+        require(_land.latitude >= -90 * COORDINATE_SCALE && _land.latitude <= 90 * COORDINATE_SCALE, "Invalid latitude");
+        require(_land.longitude >= -180 * COORDINATE_SCALE && _land.longitude <= 180 * COORDINATE_SCALE, "Invalid longitude");
+        require(_land.boundaryHash != bytes32(0), "Boundary required");
+        require(_land.price > 0, "Price required");
 
-    function registerLand(string memory _location, uint256 _price, string memory _tokenURI) public {
         uint256 tokenId = nextTokenId;
         _mint(msg.sender, tokenId);
-        _setTokenURI(tokenId, _tokenURI);
+        _setTokenURI(tokenId, _land.tokenURI);
 
-        lands[tokenId] = Land(tokenId, _location, _price, true, payable(msg.sender));
+        lands[tokenId] = Land(
+            tokenId,
+            _land.surveyNumber,
+            _land.location,
+            _land.state,
+            _land.latitude,
+            _land.longitude,
+            _land.boundaryHash,
+            _land.price,
+            true,
+            payable(msg.sender),
+            block.timestamp,
+            0
+        );
+        surveyNumberIds[keccak256(bytes(_land.surveyNumber))] = tokenId + 1;
+        _addForSale(tokenId);
         nextTokenId++;
+
+        emit LandRegistered(
+            tokenId,
+            msg.sender,
+            _land.surveyNumber,
+            _land.location,
+            _land.state,
+            _land.latitude,
+            _land.longitude,
+            _land.boundaryHash,
+            _land.price,
+            _land.tokenURI
+        );
+    }
+
+    function isSurveyNumberRegistered(string memory _surveyNumber) public view returns (bool) {
+        return surveyNumberIds[keccak256(bytes(_surveyNumber))] != 0;
+    }
+
+    function getTokenIdBySurveyNumber(string memory _surveyNumber) public view returns (uint256) {
+        uint256 storedId = surveyNumberIds[keccak256(bytes(_surveyNumber))];
+        require(storedId != 0, "Survey number not registered");
+        return storedId - 1;
+    }
+
+    // The current owner or a registrar for the parcel's state may attach documents.
+    function attachDocument(
+        uint256 _id,
+        string memory _docType,
+        string memory _contentType,
+        string memory _uri,
+        bytes32 _contentHash
+    ) public {
+        require(
+            ownerOf(_id) == msg.sender || canRegisterIn(msg.sender, lands[_id].state),
+            "Not the land owner or a registrar"
+        );
+        require(bytes(_docType).length > 0, "Document type required");
+        require(bytes(_uri).length > 0, "Document URI required");
+        require(_contentHash != bytes32(0), "Content hash required");
+
+        Document[] storage documents = landDocuments[_id];
+        documents.push(Document(_docType, _contentType, _uri, _contentHash, msg.sender, block.timestamp));
+
+        emit DocumentAttached(_id, documents.length - 1, msg.sender, _docType, _contentType, _contentHash, _uri);
+    }
+
+    function getDocuments(uint256 _id) public view returns (Document[] memory) {
+        _requireOwned(_id);
+        return landDocuments[_id];
+    }
+
+    // What buyLand charges right now: the price plus the state's stamp duty.
+    function quotePurchase(uint256 _id) public view returns (uint256 price, uint256 stampDuty, uint256 total) {
+        _requireOwned(_id);
+        price = lands[_id].price;
+        stampDuty = (price * stampDutyBps(lands[_id].state)) / 10000;
+        total = price + stampDuty;
     }
 
     function buyLand(uint256 _id) public payable {
         Land storage land = lands[_id];
         require(land.isForSale, "Land not for sale");
-        require(msg.value >= land.price, "Insufficient funds");
+        (uint256 price, uint256 stampDuty, uint256 total) = quotePurchase(_id);
+        require(msg.value >= total, "Insufficient funds");
+
+        _startSale(_id, payable(msg.sender), price, stampDuty);
+        // Anything sent above the total goes back to the buyer
+        _pay(payable(msg.sender), msg.value - total);
+    }
+
+    // Deposits the offered price plus the current stamp duty until the offer
+    // is accepted, rejected or withdrawn.
+    function makeOffer(uint256 _id, uint256 _price, uint256 _expiresAt) public payable {
         require(ownerOf(_id) != msg.sender, "You already own this");
+        require(_price > 0, "Offer price required");
+        require(_expiresAt > block.timestamp, "Expiry must be in the future");
+        uint256 stampDuty = (_price * stampDutyBps(lands[_id].state)) / 10000;
+        require(msg.value >= _price + stampDuty, "Insufficient funds");
+
+        landOffers[_id].push(Offer(payable(msg.sender), _price, stampDuty, _expiresAt, 0, address(0), OfferStatus.Open));
+        emit OfferMade(_id, landOffers[_id].length - 1, msg.sender, _price, _expiresAt);
+        _pay(payable(msg.sender), msg.value - _price - stampDuty);
+    }
+
+    function acceptOffer(uint256 _id, uint256 _index) public onlyLandOwner(_id) {
+        Offer storage offer = _openOffer(_id, _index);
+        offer.status = OfferStatus.Accepted;
+        emit OfferAccepted(_id, _index, offer.buyer, offer.price);
+        _startSale(_id, offer.buyer, offer.price, offer.stampDuty);
+    }
 
+    function rejectOffer(uint256 _id, uint256 _index) public onlyLandOwner(_id) {
+        _closeOffer(_id, _index, OfferStatus.Rejected);
+        emit OfferRejected(_id, _index);
+    }
+
+    function counterOffer(uint256 _id, uint256 _index, uint256 _price) public onlyLandOwner(_id) {
+        Offer storage offer = _openOffer(_id, _index);
+        require(_price > offer.price, "Counter must exceed the offer");
+        offer.counterPrice = _price;
+        offer.counteredBy = msg.sender;
+        emit OfferCountered(_id, _index, _price);
+    }
+
+    // The buyer takes the owner's counter, paying the difference plus stamp
+    // duty on the new price.
+    function acceptCounterOffer(uint256 _id, uint256 _index) public payable {
+        Offer storage offer = _openOffer(_id, _index);
+        require(offer.buyer == msg.sender, "Not your offer");
+        require(offer.counterPrice > 0 && offer.counteredBy == ownerOf(_id), "No counter-offer");
+
+        uint256 deposit = offer.price + offer.stampDuty;
+        uint256 stampDuty = (offer.counterPrice * stampDutyBps(lands[_id].state)) / 10000;
+        uint256 total = offer.counterPrice + stampDuty;
+        require(deposit + msg.value >= total, "Insufficient funds");
+
+        offer.price = offer.counterPrice;
+        offer.stampDuty = stampDuty;
+        offer.status = OfferStatus.Accepted;
+        emit OfferAccepted(_id, _index, msg.sender, offer.price);
+        _startSale(_id, offer.buyer, offer.price, stampDuty);
+        _pay(offer.buyer, deposit + msg.value - total);
+    }
+
+    // Also how buyers reclaim the deposit of an expired offer.
+    function withdrawOffer(uint256 _id, uint256 _index) public {
+        require(landOffers[_id].length > _index && landOffers[_id][_index].buyer == msg.sender, "Not your offer");
+        _closeOffer(_id, _index, OfferStatus.Withdrawn);
+        emit OfferWithdrawn(_id, _index);
+    }
+
+    // Takes the parcel off the market until the auction is settled.
+    function startAuction(uint256 _id, uint256 _reservePrice, uint256 _minIncrement, uint256 _endTime) public onlyLandOwner(_id) {
+        require(auctions[_id].endTime == 0, "Land under auction");
+        require(pendingTransfers[_id].buyer == address(0), "Transfer pending approval");
+        require(lands[_id].activeLiens == 0, "Land has an active lien");
+        require(_reservePrice > 0 && _minIncrement > 0, "Reserve and increment required");
+        require(_endTime > block.timestamp, "End time must be in the future");
+
+        if (lands[_id].isForSale) _delist(_id, msg.sender);
+        auctions[_id] = Auction(payable(msg.sender), _reservePrice, _minIncrement, _endTime, payable(address(0)), 0, 0);
+        emit AuctionStarted(_id, msg.sender, _reservePrice, _minIncrement, _endTime);
+    }
+
+    // Deposits the bid plus its stamp duty; the previous highest bidder can
+    // then withdraw theirs.
+    function bid(uint256 _id, uint256 _amount) public payable {
+        Auction storage auction = auctions[_id];
+        require(auction.endTime != 0, "No auction");
+        require(block.timestamp < auction.endTime, "Auction ended");
+        require(msg.sender != auction.seller, "Seller cannot bid");
+        if (auction.highestBidder == address(0)) {
+            require(_amount >= auction.reservePrice, "Bid below reserve");
+        } else {
+            require(_amount >= auction.highestBid + auction.minIncrement, "Bid increment too low");
+            pendingWithdrawals[auction.highestBidder] += auction.highestBid + auction.stampDuty;
+        }
+        uint256 stampDuty = (_amount * stampDutyBps(lands[_id].state)) / 10000;
+        require(msg.value >= _amount + stampDuty, "Insufficient funds");
+
+        auction.highestBidder = payable(msg.sender);
+        auction.highestBid = _amount;
+        auction.stampDuty = stampDuty;
+        if (auction.endTime - block.timestamp < AUCTION_EXTENSION) {
+            auction.endTime = block.timestamp + AUCTION_EXTENSION;
+        }
+        emit AuctionBid(_id, msg.sender, _amount, auction.endTime);
+        _pay(payable(msg.sender), msg.value - _amount - stampDuty);
+    }
+
+    // Anyone can settle once the auction is over; the sale then follows the
+    // buyLand path, escrow included.
+    function settleAuction(uint256 _id) public {
+        Auction memory auction = auctions[_id];
+        require(auction.endTime != 0, "No auction");
+        require(block.timestamp >= auction.endTime, "Auction not ended");
+        delete auctions[_id];
+
+        emit AuctionSettled(_id, auction.highestBidder, auction.highestBid);
+        if (auction.highestBidder != address(0)) {
+            _startSale(_id, auction.highestBidder, auction.highestBid, auction.stampDuty);
+        }
+    }
+
+    function cancelAuction(uint256 _id) public onlyLandOwner(_id) {
+        require(auctions[_id].endTime != 0, "No auction");
+        require(auctions[_id].highestBidder == address(0), "Auction has bids");
+        delete auctions[_id];
+        emit AuctionCancelled(_id);
+    }
+
+    function withdraw() public {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        pendingWithdrawals[msg.sender] = 0;
+        emit Withdrawn(msg.sender, amount);
+        _pay(payable(msg.sender), amount);
+    }
+
+    // Not while a sale is in progress, which could then never complete. A
+    // listed parcel is taken off the market, as nobody could buy it.
+    function registerLien(uint256 _id, uint256 _amount, bytes32 _documentHash) public {
+        require(lenders[msg.sender], "Not an authorised lender");
+        _requireOwned(_id);
+        require(_amount > 0, "Lien amount required");
+        require(_documentHash != bytes32(0), "Document hash required");
+        require(pendingTransfers[_id].buyer == address(0), "Transfer pending approval");
+        require(auctions[_id].endTime == 0, "Land under auction");
+
+        if (lands[_id].isForSale) _delist(_id, ownerOf(_id));
+        landLiens[_id].push(Lien(msg.sender, _amount, _documentHash, block.timestamp, false));
+        lands[_id].activeLiens++;
+        emit LienRegistered(_id, landLiens[_id].length - 1, msg.sender, _amount, _documentHash);
+    }
+
+    // Only the lender that registered the lien can release it, even after
+    // losing the lender role.
+    function releaseLien(uint256 _id, uint256 _index) public {
+        require(_index < landLiens[_id].length, "Lien not found");
+        Lien storage lien = landLiens[_id][_index];
+        require(lien.lender == msg.sender, "Not the lender");
+        require(!lien.released, "Lien already released");
+
+        lien.released = true;
+        lands[_id].activeLiens--;
+        emit LienReleased(_id, _index, msg.sender);
+    }
+
+    function getLiens(uint256 _id) public view returns (Lien[] memory) {
+        _requireOwned(_id);
+        return landLiens[_id];
+    }
+
+    function getOffers(uint256 _id) public view returns (Offer[] memory) {
+        _requireOwned(_id);
+        return landOffers[_id];
+    }
+
+    function approveTransfer(uint256 _id) public onlyRegistrarFor(lands[_id].state) {
+        PendingTransfer memory pending = pendingTransfers[_id];
+        require(pending.buyer != address(0), "No pending transfer");
+        require(block.timestamp <= pending.deadline, "Approval deadline passed");
+        require(msg.sender != pending.buyer && msg.sender != pending.seller, "Registrar is a party to the sale");
+
+        delete pendingTransfers[_id];
+        emit TransferApproved(_id, msg.sender);
+        _settleSale(_id, pending.seller, pending.buyer, pending.price, pending.stampDuty);
+    }
+
+    function rejectTransfer(uint256 _id, string memory _reason) public onlyRegistrarFor(lands[_id].state) {
+        require(pendingTransfers[_id].buyer != address(0), "No pending transfer");
+        emit TransferRejected(_id, msg.sender, _reason);
+        _refundTransfer(_id);
+    }
+
+    // Anyone can return the buyer's payment once registrars have missed the deadline.
+    function refundExpiredTransfer(uint256 _id) public {
+        PendingTransfer storage pending = pendingTransfers[_id];
+        require(pending.buyer != address(0), "No pending transfer");
+        require(block.timestamp > pending.deadline, "Approval deadline not reached");
+        emit TransferExpired(_id);
+        _refundTransfer(_id);
+    }
+
+    function listLand(uint256 _id, uint256 _price) public onlyLandOwner(_id) {
+        Land storage land = lands[_id];
+        require(!land.isForSale, "Land already listed");
+        require(pendingTransfers[_id].buyer == address(0), "Transfer pending approval");
+        require(auctions[_id].endTime == 0, "Land under auction");
+        require(land.activeLiens == 0, "Land has an active lien");
+        require(_price > 0, "Price required");
+
+        land.price = _price;
+        land.isForSale = true;
+        land.listedAt = block.timestamp;
+        _addForSale(_id);
+
+        emit LandListed(_id, msg.sender, _price);
+    }
+
+    function delistLand(uint256 _id) public onlyLandOwner(_id) {
+        require(lands[_id].isForSale, "Land not for sale");
+        _delist(_id, msg.sender);
+    }
+
+    function updatePrice(uint256 _id, uint256 _newPrice) public onlyLandOwner(_id) {
+        Land storage land = lands[_id];
+        require(land.isForSale, "Land not for sale");
+        require(land.activeLiens == 0, "Land has an active lien");
+        require(_newPrice > 0, "Price required");
+
+        uint256 oldPrice = land.price;
+        land.price = _newPrice;
+
+        emit PriceUpdated(_id, oldPrice, _newPrice);
+    }
+    
+    // Every ownership change (buyLand or a plain ERC-721 transfer) clears the
+    // listing and keeps the cached owner in sync with ownerOf.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        // Escrowed parcels only move when a registrar approves the sale
+        require(pendingTransfers[tokenId].buyer == address(0), "Transfer pending approval");
+        require(auctions[tokenId].endTime == 0, "Land under auction");
+        require(lands[tokenId].activeLiens == 0, "Land has an active lien");
+        address from = super._update(to, tokenId, auth);
+
+        if (from != address(0)) _removeOwned(from, tokenId);
+        if (to != address(0)) _addOwned(to, tokenId);
+
+        if (from != address(0) && to != address(0)) {
+            Land storage land = lands[tokenId];
+            if (land.isForSale) _removeForSale(tokenId);
+            land.isForSale = false;
+            land.seller = payable(to);
+            land.listedAt = 0;
+        }
+
+        return from;
+    }
+
+    function _openOffer(uint256 _id, uint256 _index) private view returns (Offer storage offer) {
+        require(_index < landOffers[_id].length, "Offer not found");
+        offer = landOffers[_id][_index];
+        require(offer.status == OfferStatus.Open, "Offer not open");
+        require(block.timestamp <= offer.expiresAt, "Offer expired");
+    }
+
+    // Refunds the deposit; expired offers can still be closed this way.
+    function _closeOffer(uint256 _id, uint256 _index, OfferStatus _status) private {
+        require(_index < landOffers[_id].length, "Offer not found");
+        Offer storage offer = landOffers[_id][_index];
+        require(offer.status == OfferStatus.Open, "Offer not open");
+        offer.status = _status;
+        _pay(offer.buyer, offer.price + offer.stampDuty);
+    }
+
+    // Settles now, or in escrow mode holds the payment for registrar approval.
+    // An offer's buyer may own the parcel by the time it is accepted.
+    function _startSale(uint256 _id, address payable _buyer, uint256 _price, uint256 _stampDuty) private {
+        require(pendingTransfers[_id].buyer == address(0), "Transfer pending approval");
+        require(auctions[_id].endTime == 0, "Land under auction");
+        require(lands[_id].activeLiens == 0, "Land has an active lien");
         address payable seller = payable(ownerOf(_id));
-        
-        _transfer(seller, msg.sender, _id);
-        (bool success, ) = seller.call{value: msg.value}("");
+        require(_buyer != seller, "You already own this");
+        if (escrowPeriod == 0) {
+            _settleSale(_id, seller, _buyer, _price, _stampDuty);
+            return;
+        }
+
+        // Off the market while the land office checks the deal
+        Land storage land = lands[_id];
+        if (land.isForSale) {
+            land.isForSale = false;
+            _removeForSale(_id);
+        }
+        uint256 deadline = block.timestamp + escrowPeriod;
+        pendingTransfers[_id] = PendingTransfer(_buyer, seller, _price, _stampDuty, deadline);
+        emit TransferRequested(_id, _buyer, seller, _price, _stampDuty, deadline);
+    }
+
+    function _settleSale(
+        uint256 _id,
+        address payable _seller,
+        address _buyer,
+        uint256 _price,
+        uint256 _stampDuty
+    ) private {
+        treasuryBalance += _stampDuty;
+        totalStampDuty += _stampDuty;
+
+        _transfer(_seller, _buyer, _id);
+        _payOrCredit(_seller, _price);
+
+        emit LandSold(_id, _seller, _buyer, _price);
+        emit StampDutyPaid(_id, _buyer, lands[_id].state, _stampDuty);
+    }
+
+    // Refunds the buyer and, if the parcel was listed (listedAt is kept while
+    // in escrow), puts it back on the market at its listed price.
+    function _refundTransfer(uint256 _id) private {
+        PendingTransfer memory pending = pendingTransfers[_id];
+        delete pendingTransfers[_id];
+
+        if (lands[_id].listedAt != 0) {
+            lands[_id].isForSale = true;
+            _addForSale(_id);
+        }
+        _payOrCredit(pending.buyer, pending.price + pending.stampDuty);
+    }
+
+    // For payments a refusing recipient must not block: a seller's proceeds,
+    // least of all from an auction holding the winner's deposit, and escrow
+    // refunds, without which the parcel would stay locked.
+    function _payOrCredit(address _to, uint256 _amount) private {
+        (bool success, ) = payable(_to).call{value: _amount}("");
+        if (!success) pendingWithdrawals[_to] += _amount;
+    }
+
+    function _pay(address payable _to, uint256 _amount) private {
+        if (_amount == 0) return;
+        (bool success, ) = _to.call{value: _amount}("");
         require(success, "Transfer failed");
+    }
 
+    function _delist(uint256 _id, address _owner) private {
+        Land storage land = lands[_id];
         land.isForSale = false;
-        land.seller = payable(msg.sender);
+        land.listedAt = 0;
+        _removeForSale(_id);
+        emit LandDelisted(_id, _owner);
     }
-    
-    function getAllLands() public view returns (Land[] memory) {
-        Land[] memory allLands = new Land[](nextTokenId);
-        for(uint256 i=0; i < nextTokenId; i++) {
-            allLands[i] = lands[i];
+
+    function _addForSale(uint256 _id) private {
+        forSaleIds.push(_id);
+        forSalePosition[_id] = forSaleIds.length;
+    }
+
+    function _removeForSale(uint256 _id) private {
+        uint256 index = forSalePosition[_id] - 1;
+        uint256 lastId = forSaleIds[forSaleIds.length - 1];
+        forSaleIds[index] = lastId;
+        forSalePosition[lastId] = index + 1;
+        forSaleIds.pop();
+        delete forSalePosition[_id];
+    }
+
+    function _addOwned(address _owner, uint256 _id) private {
+        ownedIds[_owner].push(_id);
+        ownedPosition[_id] = ownedIds[_owner].length;
+    }
+
+    function _removeOwned(address _owner, uint256 _id) private {
+        uint256[] storage ids = ownedIds[_owner];
+        uint256 index = ownedPosition[_id] - 1;
+        uint256 lastId = ids[ids.length - 1];
+        ids[index] = lastId;
+        ownedPosition[lastId] = index + 1;
+        ids.pop();
+        delete ownedPosition[_id];
+    }
+
+    function forSaleCount() public view returns (uint256) {
+        return forSaleIds.length;
+    }
+
+    // Paged reads: ids [_offset, _offset + _limit) of the given index, clamped to its length.
+    function getLands(uint256 _offset, uint256 _limit) public view returns (Land[] memory) {
+        uint256 end = _pageEnd(nextTokenId, _offset, _limit);
+        Land[] memory page = new Land[](end > _offset ? end - _offset : 0);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = lands[i];
         }
-        return allLands;
+        return page;
+    }
+
+    function getLandsForSale(uint256 _offset, uint256 _limit) public view returns (Land[] memory) {
+        return _landsAt(forSaleIds, _offset, _limit);
+    }
+
+    function getLandsByOwner(address _owner, uint256 _offset, uint256 _limit) public view returns (Land[] memory) {
+        return _landsAt(ownedIds[_owner], _offset, _limit);
+    }
+
+    function _landsAt(uint256[] storage _ids, uint256 _offset, uint256 _limit) private view returns (Land[] memory) {
+        uint256 end = _pageEnd(_ids.length, _offset, _limit);
+        Land[] memory page = new Land[](end > _offset ? end - _offset : 0);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = lands[_ids[i]];
+        }
+        return page;
+    }
+
+    function _pageEnd(uint256 _total, uint256 _offset, uint256 _limit) private pure returns (uint256) {
+        if (_offset >= _total) return _offset;
+        return _total - _offset < _limit ? _total : _offset + _limit;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Test account that buys and sells parcels but refuses ETH until told
+// otherwise, like a contract wallet without a receive function.
+contract RejectingWallet {
+    bool public accepting;
+
+    function execute(address _target, bytes calldata _data) external payable {
+        (bool success, bytes memory result) = _target.call{value: msg.value}(_data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function setAccepting(bool _accepting) external {
+        accepting = _accepting;
+    }
+
+    receive() external payable {
+        require(accepting, "Payments refused");
+    }
+}
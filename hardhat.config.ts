@@ -58,7 +58,7 @@ const config: HardhatUserConfig = {
       : {}),
   },
   gasReporter: {
-    enabled: process.env.REPORT_GAS === "true",
+    enabled: ["1", "true"].includes(process.env.REPORT_GAS ?? ""),
     currency: "USD",
   },
 };
@@ -0,0 +1,178 @@
+import { ethers } from "hardhat";
+import { EventLog } from "ethers";
+import { getDeployment, getLandRegistry } from "./deployments";
+
+const SECONDS_PER_HOUR = 3600;
+// Each bid must beat the last by this share of the reserve price
+const MIN_INCREMENT_PERCENT = BigInt(5);
+
+type LandRegistry = Awaited<ReturnType<typeof getLandRegistry>>;
+
+// Auctions run on block time, which can drift from the clock on dev chains
+async function chainTime(): Promise<number> {
+  const latest = await ethers.provider.getBlock("latest");
+  return latest?.timestamp ?? Math.floor(Date.now() / 1000);
+}
+
+// Ids of auctions started on this deployment that have not been settled or
+// cancelled
+async function activeAuctionIds(landRegistry: LandRegistry) {
+  const deployment = await getDeployment();
+  const started = await landRegistry.queryFilter(
+    landRegistry.filters.AuctionStarted(),
+    deployment.blockNumber,
+  );
+  const ids = new Set<bigint>();
+  for (const event of started) {
+    const id = (event as EventLog).args.id as bigint;
+    if ((await landRegistry.auctions(id)).endTime !== BigInt(0)) ids.add(id);
+  }
+  return [...ids];
+}
+
+// Reserve prices are the parcels' current prices, e.g. the fixed prices from
+// governmentLandData.json
+async function openAuctions(hours: string, surveyNumbers: string[]) {
+  const duration = Number(hours);
+  if (!hours || !Number.isFinite(duration) || duration <= 0) {
+    throw new Error(`Invalid number of hours: ${hours}`);
+  }
+  if (surveyNumbers.length === 0) {
+    throw new Error("Give at least one survey number");
+  }
+
+  const landRegistry = await getLandRegistry();
+  const [signer] = await ethers.getSigners();
+  const endTime = (await chainTime()) + Math.round(duration * SECONDS_PER_HOUR);
+
+  let opened = 0;
+  for (const surveyNumber of surveyNumbers) {
+    if (!(await landRegistry.isSurveyNumberRegistered(surveyNumber))) {
+      console.warn(`⚠️ ${surveyNumber}: not registered - skipping`);
+      continue;
+    }
+    const tokenId = await landRegistry.getTokenIdBySurveyNumber(surveyNumber);
+    if ((await landRegistry.ownerOf(tokenId)) !== signer.address) {
+      console.warn(
+        `⚠️ ${surveyNumber}: not owned by ${signer.address} - skipping`,
+      );
+      continue;
+    }
+    if ((await landRegistry.auctions(tokenId)).endTime !== BigInt(0)) {
+      console.warn(`⚠️ ${surveyNumber}: already under auction - skipping`);
+      continue;
+    }
+
+    const { price, activeLiens } = await landRegistry.lands(tokenId);
+    if (activeLiens > BigInt(0)) {
+      console.warn(`⚠️ ${surveyNumber}: has an active lien - skipping`);
+      continue;
+    }
+    const minIncrement = (price * MIN_INCREMENT_PERCENT) / BigInt(100);
+    const tx = await landRegistry.startAuction(
+      tokenId,
+      price,
+      minIncrement,
+      endTime,
+    );
+    await tx.wait();
+    opened += 1;
+    console.log(
+      `🔨 Land #${tokenId} (${surveyNumber}): reserve ${ethers.formatEther(
+        price,
+      )} ETH, +${ethers.formatEther(minIncrement)} ETH per bid`,
+    );
+  }
+
+  console.log(`\n✅ Opened ${opened} of ${surveyNumbers.length} auctions`);
+  if (opened > 0) {
+    console.log(`   Ending: ${new Date(endTime * 1000).toLocaleString()}`);
+  }
+}
+
+async function listAuctions() {
+  const landRegistry = await getLandRegistry();
+  const ids = await activeAuctionIds(landRegistry);
+  const now = await chainTime();
+
+  console.log(`\n🔨 Active Auctions:`);
+  if (ids.length === 0) {
+    console.log("   None");
+    return;
+  }
+  for (const id of ids) {
+    const [auction, land] = await Promise.all([
+      landRegistry.auctions(id),
+      landRegistry.lands(id),
+    ]);
+    const endTime = new Date(Number(auction.endTime) * 1000);
+    console.log(`  Land #${id} (${land.surveyNumber}, ${land.state})`);
+    console.log(
+      `      ${
+        auction.highestBidder === ethers.ZeroAddress
+          ? `No bids, reserve ${ethers.formatEther(auction.reservePrice)} ETH`
+          : `Highest bid ${ethers.formatEther(auction.highestBid)} ETH by ${
+              auction.highestBidder
+            }`
+      }, ${
+        Number(auction.endTime) <= now ? "ended" : "ends"
+      } ${endTime.toLocaleString()}\n`,
+    );
+  }
+}
+
+// Anyone may settle an auction once it has ended
+async function settleEnded() {
+  const landRegistry = await getLandRegistry();
+  const now = BigInt(await chainTime());
+
+  let settled = 0;
+  for (const id of await activeAuctionIds(landRegistry)) {
+    const auction = await landRegistry.auctions(id);
+    if (auction.endTime > now) continue;
+
+    const tx = await landRegistry.settleAuction(id);
+    await tx.wait();
+    settled += 1;
+    console.log(
+      auction.highestBidder === ethers.ZeroAddress
+        ? `   Land #${id}: closed without bids`
+        : `   Land #${id}: sold to ${
+            auction.highestBidder
+          } for ${ethers.formatEther(auction.highestBid)} ETH`,
+    );
+  }
+  console.log(`✅ Settled ${settled} auctions`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "open":
+      await openAuctions(args[1], args.slice(2));
+      break;
+
+    case "list":
+      await listAuctions();
+      break;
+
+    case "settle":
+      await settleEnded();
+      break;
+
+    default:
+      console.log(`
+Auction Commands:
+  HARDHAT_NETWORK=localhost npx ts-node scripts/auctions.ts open <hours> <surveyNumber...>  - Auction parcels you own, reserve at their current price
+  HARDHAT_NETWORK=localhost npx ts-node scripts/auctions.ts list                            - Show active auctions and their highest bids
+  HARDHAT_NETWORK=localhost npx ts-node scripts/auctions.ts settle                          - Settle every auction that has ended
+      `);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
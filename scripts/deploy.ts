@@ -1,6 +1,7 @@
 import { ethers, network } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
+import { toFixedPoint } from "../client/src/utils/coordinates";
+import { boundaryHash, squareBoundary } from "../client/src/utils/geometry";
+import { REGISTRY_PATH, recordDeployment } from "./deployments";
 
 async function main() {
   console.log("🚀 Deploying Contract...");
@@ -33,42 +34,42 @@ async function main() {
 
   console.log(`✅ LandRegistry deployed to: ${address}`);
 
-  // 2. Save Config to Frontend
+  // 2. Record the deployment for the frontend and scripts
   try {
-    const configDir = path.resolve(__dirname, "../client/src/utils");
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
-    }
-
-    const configPath = path.join(configDir, "contractConfig.json");
-    const configData = {
-      address: address,
-      network: network.name,
-      chainId: network.config.chainId,
-      abi: JSON.parse(landRegistry.interface.formatJson()),
-      deployedAt: new Date().toISOString(),
-    };
-
-    fs.writeFileSync(configPath, JSON.stringify(configData, null, 2));
-    console.log(`📁 Config saved to: ${configPath}`);
+    const record = await recordDeployment(landRegistry);
+    console.log(
+      `📁 Recorded in ${REGISTRY_PATH} (chain ${network.config.chainId}, block ${record.blockNumber}, ABI ${record.abiVersion})`,
+    );
   } catch (fileError) {
-    console.warn("⚠️ Failed to save config file:", fileError);
-    // Don't throw - deployment succeeded, config save is secondary
+    console.warn("⚠️ Failed to record deployment:", fileError);
+    // Don't throw - deployment succeeded, recording it is secondary
   }
 
   // 3. Seed Data (Only for Localhost)
   if (network.name === "localhost" || network.name === "hardhat") {
     console.log("🌱 Seeding dummy lands...");
+    // Kept clear of the governmentLandData.json parcels, which the import
+    // refuses when they overlap anything already on chain
     try {
       const tx1 = await landRegistry.registerLand(
+        "DEMO-MH-101",
         "Plot 101, City Center",
+        "Maharashtra",
+        toFixedPoint(19.086),
+        toFixedPoint(72.8877),
+        boundaryHash(squareBoundary({ lat: 19.086, lng: 72.8877 }, 2000)),
         ethers.parseEther("1.5"),
         "ipfs://test1",
       );
       await tx1.wait();
 
       const tx2 = await landRegistry.registerLand(
+        "DEMO-KA-202",
         "Plot 202, Riverside",
+        "Karnataka",
+        toFixedPoint(12.9816),
+        toFixedPoint(77.6046),
+        boundaryHash(squareBoundary({ lat: 12.9816, lng: 77.6046 }, 3500)),
         ethers.parseEther("3.0"),
         "ipfs://test2",
       );
@@ -0,0 +1,144 @@
+import { ethers, network } from "hardhat";
+import { BaseContract } from "ethers";
+import { HttpNetworkConfig } from "hardhat/types";
+import * as fs from "fs";
+import * as path from "path";
+
+export const REGISTRY_PATH = path.resolve(
+  __dirname,
+  "../client/src/utils/deployments.json",
+);
+
+export interface DeploymentRecord {
+  address: string;
+  abiVersion: string;
+  blockNumber: number;
+  deployer: string;
+  deployedAt: string;
+  // Set by deployWithGovernmentLands
+  governmentAddress?: string;
+  totalLands?: number;
+}
+
+export interface ChainDeployments {
+  network: string;
+  // JSON-RPC endpoint the client reads through when no wallet is connected
+  rpcUrl?: string;
+  // Oldest first; the last one is the active deployment
+  deployments: DeploymentRecord[];
+}
+
+export interface DeploymentRegistry {
+  // Keyed by abiVersion, so redeploying the same contract stores no new copy
+  abis: Record<string, unknown[]>;
+  chains: Record<string, ChainDeployments>;
+}
+
+export function loadDeploymentRegistry(): DeploymentRegistry {
+  if (!fs.existsSync(REGISTRY_PATH)) return { abis: {}, chains: {} };
+  return JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8"));
+}
+
+// Only localhost's URL is recorded on its own: public networks need
+// PUBLIC_RPC_URL, so a provider key from SEPOLIA_RPC_URL never ends up in the
+// client bundle by accident.
+export function publicRpcUrl(): string | undefined {
+  if (process.env.PUBLIC_RPC_URL) return process.env.PUBLIC_RPC_URL;
+  return network.name === "localhost"
+    ? (network.config as HttpNetworkConfig).url
+    : undefined;
+}
+
+async function currentChainId(): Promise<number> {
+  return Number((await ethers.provider.getNetwork()).chainId);
+}
+
+// Appends a deployment to the registry and makes it the active one for its
+// chain
+export async function recordDeployment(
+  landRegistry: BaseContract,
+  extra: Pick<DeploymentRecord, "governmentAddress" | "totalLands"> = {},
+): Promise<DeploymentRecord> {
+  const deployTx = landRegistry.deploymentTransaction();
+  const receipt = deployTx ? await deployTx.wait() : null;
+  if (!deployTx || !receipt) {
+    throw new Error("Deployment transaction not found");
+  }
+
+  const abiJson = landRegistry.interface.formatJson();
+  const abiVersion = ethers.id(abiJson).slice(2, 10);
+  const chainId = await currentChainId();
+  const registry = loadDeploymentRegistry();
+  const chain = registry.chains[chainId] ?? {
+    network: network.name,
+    deployments: [],
+  };
+
+  const record: DeploymentRecord = {
+    address: await landRegistry.getAddress(),
+    abiVersion,
+    blockNumber: receipt.blockNumber,
+    deployer: deployTx.from,
+    deployedAt: new Date().toISOString(),
+    ...extra,
+  };
+
+  registry.abis[abiVersion] ??= JSON.parse(abiJson);
+  registry.chains[chainId] = {
+    network: network.name,
+    rpcUrl: publicRpcUrl() ?? chain.rpcUrl,
+    deployments: [...chain.deployments, record],
+  };
+
+  saveDeploymentRegistry(registry);
+  return record;
+}
+
+// Fills in what is only known once a recorded deployment has been set up
+export async function updateDeployment(
+  address: string,
+  changes: Pick<DeploymentRecord, "totalLands">,
+): Promise<void> {
+  const chainId = await currentChainId();
+  const registry = loadDeploymentRegistry();
+  // Newest first: a restarted node reuses the addresses of earlier records
+  const record = [...(registry.chains[chainId]?.deployments ?? [])]
+    .reverse()
+    .find(
+      (deployment) =>
+        deployment.address.toLowerCase() === address.toLowerCase(),
+    );
+  if (!record) {
+    throw new Error(
+      `No deployment of ${address} recorded for chain ${chainId}`,
+    );
+  }
+  Object.assign(record, changes);
+  saveDeploymentRegistry(registry);
+}
+
+function saveDeploymentRegistry(registry: DeploymentRegistry): void {
+  fs.mkdirSync(path.dirname(REGISTRY_PATH), { recursive: true });
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2));
+}
+
+// Active deployment on the network Hardhat is connected to
+export async function getDeployment(): Promise<DeploymentRecord> {
+  const chainId = await currentChainId();
+  const deployments =
+    loadDeploymentRegistry().chains[chainId]?.deployments ?? [];
+  if (deployments.length === 0) {
+    throw new Error(
+      `No deployment recorded for chain ${chainId} in ${REGISTRY_PATH} - deploy the contract first`,
+    );
+  }
+  return deployments[deployments.length - 1];
+}
+
+// Defaults to the active deployment for the current network
+export async function getLandRegistry(address?: string) {
+  return ethers.getContractAt(
+    "LandRegistry",
+    address ?? (await getDeployment()).address,
+  );
+}
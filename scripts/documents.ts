@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import { getLandRegistry } from "./deployments";
+import {
+  DOCUMENT_TYPES,
+  hashDocument,
+  uploadDocument,
+} from "./metadataStorage";
+
+async function getTokenId(surveyNumber: string) {
+  const landRegistry = await getLandRegistry();
+  if (!(await landRegistry.isSurveyNumberRegistered(surveyNumber))) {
+    throw new Error(`Survey number not registered: ${surveyNumber}`);
+  }
+  return {
+    landRegistry,
+    tokenId: await landRegistry.getTokenIdBySurveyNumber(surveyNumber),
+  };
+}
+
+async function attach(surveyNumber: string, docType: string, filePath: string) {
+  if (!DOCUMENT_TYPES[docType]) {
+    throw new Error(
+      `Unknown document type "${docType}" - use one of ${Object.keys(
+        DOCUMENT_TYPES,
+      ).join(", ")}`,
+    );
+  }
+  const { landRegistry, tokenId } = await getTokenId(surveyNumber);
+  const document = await uploadDocument(filePath);
+
+  const tx = await landRegistry.attachDocument(
+    tokenId,
+    docType,
+    document.contentType,
+    document.uri,
+    document.contentHash,
+  );
+  await tx.wait();
+
+  console.log("✅ Document attached!");
+  console.log(`   Land: #${tokenId} (${surveyNumber})`);
+  console.log(`   Type: ${DOCUMENT_TYPES[docType]}`);
+  console.log(`   URI: ${document.uri}`);
+  console.log(`   SHA-256: ${document.contentHash}`);
+}
+
+async function list(surveyNumber: string) {
+  const { landRegistry, tokenId } = await getTokenId(surveyNumber);
+  const documents = await landRegistry.getDocuments(tokenId);
+
+  console.log(`\n📄 Documents for Land #${tokenId} (${surveyNumber}):\n`);
+  if (documents.length === 0) {
+    console.log("   No documents attached");
+    return;
+  }
+  for (let index = 0; index < documents.length; index++) {
+    const document = documents[index];
+    console.log(
+      `  [${index}] ${DOCUMENT_TYPES[document.docType] ?? document.docType} (${
+        document.contentType
+      })`,
+    );
+    console.log(`      ${document.uri}`);
+    console.log(`      SHA-256: ${document.contentHash}`);
+    console.log(
+      `      Added by ${document.addedBy} on ${new Date(
+        Number(document.addedAt) * 1000,
+      ).toLocaleString()}\n`,
+    );
+  }
+}
+
+async function verify(surveyNumber: string, index: number, filePath: string) {
+  const { landRegistry, tokenId } = await getTokenId(surveyNumber);
+  const documents = await landRegistry.getDocuments(tokenId);
+  if (!(index >= 0 && index < documents.length)) {
+    throw new Error(`Land #${tokenId} has no document [${index}]`);
+  }
+
+  const recorded = documents[index].contentHash;
+  const actual = hashDocument(fs.readFileSync(filePath));
+  if (actual === recorded) {
+    console.log(
+      `✅ ${filePath} matches document [${index}] of Land #${tokenId}`,
+    );
+  } else {
+    console.log(`❌ ${filePath} does not match document [${index}]`);
+    console.log(`   Recorded: ${recorded}`);
+    console.log(`   Actual:   ${actual}`);
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "attach":
+      if (args.length < 4) {
+        throw new Error("Usage: attach <surveyNumber> <type> <file>");
+      }
+      await attach(args[1], args[2], args[3]);
+      break;
+
+    case "list":
+      if (!args[1]) throw new Error("Usage: list <surveyNumber>");
+      await list(args[1]);
+      break;
+
+    case "verify":
+      if (args.length < 4) {
+        throw new Error("Usage: verify <surveyNumber> <index> <file>");
+      }
+      await verify(args[1], parseInt(args[2], 10), args[3]);
+      break;
+
+    default:
+      console.log(`
+Document Commands (as the land owner or a registrar for its state):
+  HARDHAT_NETWORK=localhost npx ts-node scripts/documents.ts attach <surveyNumber> <type> <file>   - Upload a PDF/image and record it on chain
+  HARDHAT_NETWORK=localhost npx ts-node scripts/documents.ts list <surveyNumber>                   - List a parcel's documents
+  HARDHAT_NETWORK=localhost npx ts-node scripts/documents.ts verify <surveyNumber> <index> <file>  - Check a local copy against the recorded hash
+
+Document types: ${Object.keys(DOCUMENT_TYPES).join(", ")}
+      `);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,93 @@
+import { ethers } from "hardhat";
+import { EventLog } from "ethers";
+import { getDeployment, getLandRegistry } from "./deployments";
+
+const SECONDS_PER_HOUR = 3600;
+
+async function setPeriod(hours: string) {
+  const value = Number(hours);
+  if (!hours || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid number of hours: ${hours}`);
+  }
+  const landRegistry = await getLandRegistry();
+  const tx = await landRegistry.setEscrowPeriod(
+    Math.round(value * SECONDS_PER_HOUR),
+  );
+  await tx.wait();
+
+  console.log("✅ Escrow period updated!");
+  console.log(
+    value === 0
+      ? "   Sales now settle immediately"
+      : `   Registrars have ${value} hours to approve each sale`,
+  );
+}
+
+async function listPending() {
+  const deployment = await getDeployment();
+  const landRegistry = await getLandRegistry(deployment.address);
+  const period = await landRegistry.escrowPeriod();
+  console.log(
+    `\n⏳ Escrow: ${
+      period === BigInt(0)
+        ? "off (sales settle immediately)"
+        : `${Number(period) / SECONDS_PER_HOUR} hours to approve`
+    }`,
+  );
+
+  const requests = await landRegistry.queryFilter(
+    landRegistry.filters.TransferRequested(),
+    deployment.blockNumber,
+  );
+  const ids = new Set<bigint>();
+  for (const request of requests) {
+    ids.add((request as EventLog).args.id);
+  }
+
+  let pendingCount = 0;
+  for (const id of ids) {
+    const pending = await landRegistry.pendingTransfers(id);
+    if (pending.buyer === ethers.ZeroAddress) continue;
+    const land = await landRegistry.lands(id);
+    const deadline = new Date(Number(pending.deadline) * 1000);
+    pendingCount += 1;
+    console.log(
+      `  Land #${id} (${land.surveyNumber}, ${land.state}): ${pending.seller} → ${pending.buyer}`,
+    );
+    console.log(
+      `      ${ethers.formatEther(pending.price)} ETH + ${ethers.formatEther(
+        pending.stampDuty,
+      )} ETH stamp duty, ${
+        deadline.getTime() < Date.now() ? "expired" : "due"
+      } ${deadline.toLocaleString()}\n`,
+    );
+  }
+  if (pendingCount === 0) console.log("   No transfers awaiting approval");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "set-period":
+      await setPeriod(args[1]);
+      break;
+
+    case "pending":
+      await listPending();
+      break;
+
+    default:
+      console.log(`
+Escrow Commands:
+  HARDHAT_NETWORK=localhost npx ts-node scripts/escrow.ts set-period <hours>  - Hold sales for registrar approval (0 turns escrow off; owner only)
+  HARDHAT_NETWORK=localhost npx ts-node scripts/escrow.ts pending             - List transfers awaiting approval
+      `);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,548 @@
+import { ethers } from "hardhat";
+import { TransactionReceipt } from "ethers";
+import * as fs from "fs";
+import {
+  LandMetadata,
+  createLandMetadata as buildLandMetadata,
+} from "../client/src/utils/landMetadata";
+import {
+  fetchJSON,
+  getStorageProvider,
+  uploadMetadata,
+} from "./metadataStorage";
+import { fromFixedPoint, toFixedPoint } from "../client/src/utils/coordinates";
+import {
+  PolygonGeometry,
+  Position,
+  boundaryHash,
+  parseAreaSqMeters,
+  polygonContains,
+  polygonsOverlap,
+  squareBoundary,
+} from "../client/src/utils/geometry";
+import { ImportStore } from "./importStore";
+import { formatIssues, validateGovLands } from "./landSchema";
+import { getLandRegistry } from "./deployments";
+import governmentData from "./governmentLandData.json";
+
+export interface GovLand {
+  surveyNumber: string;
+  location: string;
+  district: string;
+  state: string;
+  area: string;
+  landType: string;
+  price: string;
+  description: string;
+  coordinates: { lat: number; lng: number };
+}
+
+type LandRegistry = Awaited<ReturnType<typeof getLandRegistry>>;
+
+const MAX_ATTEMPTS = parseInt(process.env.IMPORT_MAX_ATTEMPTS || "4", 10);
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Unchecked records of a dataset in the governmentLandData.json shape
+export function readGovernmentData(filePath?: string): unknown[] {
+  const data = filePath
+    ? JSON.parse(fs.readFileSync(filePath, "utf8"))
+    : governmentData;
+  if (!Array.isArray(data?.governmentLands)) {
+    throw new Error(
+      `${filePath ?? "governmentLandData.json"} has no governmentLands array`,
+    );
+  }
+  return data.governmentLands;
+}
+
+// Refuses the whole dataset if any record fails the schema, so nothing is
+// uploaded or sent for a file that still needs fixing.
+export function loadGovernmentLands(filePath?: string): GovLand[] {
+  const records = readGovernmentData(filePath);
+  const issues = validateGovLands(records);
+  if (issues.length > 0) {
+    throw new Error(
+      `Land data has ${issues.length} invalid field(s):\n${formatIssues(issues)}`,
+    );
+  }
+  return records as GovLand[];
+}
+
+// The dataset only records a centre point and an area, so each parcel is
+// modelled as a square of that area around its centre.
+export function createLandBoundary(land: GovLand): PolygonGeometry {
+  return squareBoundary(land.coordinates, parseAreaSqMeters(land.area));
+}
+
+// The document the client builds for parcels registered in the app, owned
+// by the government and named as such
+export async function createLandMetadata(
+  land: GovLand,
+  boundary: PolygonGeometry,
+): Promise<LandMetadata> {
+  const metadata = buildLandMetadata({
+    ...land,
+    owner: "Government of India",
+    boundary,
+  });
+  return { ...metadata, name: `Government Land - ${land.surveyNumber}` };
+}
+
+const TRANSIENT_ERROR_CODES = new Set([
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+]);
+const TRANSIENT_ERROR_MESSAGE =
+  /timeout|timed out|socket hang up|fetch failed|rate limit|too many requests|nonce too low|replacement transaction underpriced/i;
+
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  // Reverts are deterministic - retrying cannot help
+  if (code === "CALL_EXCEPTION") return false;
+  if (typeof code === "string" && TRANSIENT_ERROR_CODES.has(code)) return true;
+  return TRANSIENT_ERROR_MESSAGE.test(error.message) || isTransientError(cause);
+}
+
+async function withRetry<T>(
+  label: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isTransientError(error)) throw error;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(
+        `   ⚠️ ${label} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms...`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export type PlanAction = "register" | "skip" | "invalid";
+
+export interface PlannedParcel {
+  land: GovLand;
+  action: PlanAction;
+  boundary?: PolygonGeometry;
+  tokenId?: string;
+  reason?: string;
+}
+
+// A parcel already on chain, as far as overlap checks are concerned
+interface RegisteredParcel {
+  tokenId: bigint;
+  surveyNumber: string;
+  // [lng, lat] from the on-chain coordinates
+  centre: Position;
+  // Unset when the metadata cannot be loaded or does not match boundaryHash
+  boundary?: PolygonGeometry;
+}
+
+const REGISTERED_PAGE_SIZE = 100;
+
+// The Land struct fields getLands returns that the overlap check needs
+interface OnChainLand {
+  id: bigint;
+  surveyNumber: string;
+  latitude: bigint;
+  longitude: bigint;
+  boundaryHash: string;
+}
+
+async function fetchVerifiedBoundary(
+  landRegistry: LandRegistry,
+  tokenId: bigint,
+  committedHash: string,
+): Promise<PolygonGeometry | undefined> {
+  try {
+    const metadata = (await fetchJSON(
+      await landRegistry.tokenURI(tokenId),
+    )) as Partial<LandMetadata> | null;
+    const boundary = metadata?.properties?.boundary;
+    if (boundary && boundaryHash(boundary) === committedHash) return boundary;
+  } catch {
+    // Reported below like a missing boundary
+  }
+  console.warn(
+    `⚠️ Land #${tokenId} has no verifiable boundary - checking overlaps against its centre point only`,
+  );
+  return undefined;
+}
+
+async function loadRegisteredParcels(
+  landRegistry: LandRegistry,
+): Promise<RegisteredParcel[]> {
+  const total = await landRegistry.nextTokenId();
+  const parcels: RegisteredParcel[] = [];
+  for (
+    let offset = BigInt(0);
+    offset < total;
+    offset += BigInt(REGISTERED_PAGE_SIZE)
+  ) {
+    const page: OnChainLand[] = await withRetry(
+      "Loading registered lands",
+      () => landRegistry.getLands(offset, REGISTERED_PAGE_SIZE),
+    );
+    parcels.push(
+      ...(await Promise.all(
+        page.map(async (land) => ({
+          tokenId: land.id,
+          surveyNumber: land.surveyNumber,
+          centre: [
+            fromFixedPoint(land.longitude),
+            fromFixedPoint(land.latitude),
+          ] as Position,
+          boundary: await fetchVerifiedBoundary(
+            landRegistry,
+            land.id,
+            land.boundaryHash,
+          ),
+        })),
+      )),
+    );
+  }
+  return parcels;
+}
+
+function overlapsRegistered(
+  boundary: PolygonGeometry,
+  parcel: RegisteredParcel,
+): boolean {
+  return parcel.boundary
+    ? polygonsOverlap(parcel.boundary, boundary)
+    : polygonContains(boundary, parcel.centre);
+}
+
+// Decides what an import would do with each parcel without sending anything.
+// Boundaries are checked against the rest of the dataset, so a dataset that
+// overlaps itself is caught before the first transaction, and against every
+// parcel already on chain. On-chain boundaries come from the token metadata
+// and are only trusted when they match the committed hash; parcels without
+// one are checked by their centre point.
+// Expects records that already passed loadGovernmentLands.
+export async function planImport(
+  landRegistry: LandRegistry,
+  lands: GovLand[],
+  registrar: string,
+): Promise<PlannedParcel[]> {
+  const plan: PlannedParcel[] = [];
+  const registered = await loadRegisteredParcels(landRegistry);
+
+  for (const land of lands) {
+    const invalid = (reason: string) =>
+      plan.push({ land, action: "invalid", reason });
+
+    const boundary = createLandBoundary(land);
+
+    const overlapping = plan.find(
+      (other) => other.boundary && polygonsOverlap(other.boundary, boundary),
+    );
+    if (overlapping) {
+      invalid(`Boundary overlaps parcel ${overlapping.land.surveyNumber}`);
+      continue;
+    }
+
+    if (await landRegistry.isSurveyNumberRegistered(land.surveyNumber)) {
+      const tokenId = await landRegistry.getTokenIdBySurveyNumber(
+        land.surveyNumber,
+      );
+      plan.push({
+        land,
+        action: "skip",
+        boundary,
+        tokenId: tokenId.toString(),
+      });
+      continue;
+    }
+
+    const onChain = registered.find((parcel) =>
+      overlapsRegistered(boundary, parcel),
+    );
+    if (onChain) {
+      invalid(
+        `Boundary overlaps Land #${onChain.tokenId} (${onChain.surveyNumber}) already on chain`,
+      );
+      continue;
+    }
+
+    if (!(await landRegistry.canRegisterIn(registrar, land.state))) {
+      invalid(`${registrar} is not a registrar for ${land.state}`);
+      continue;
+    }
+
+    plan.push({ land, action: "register", boundary });
+  }
+
+  return plan;
+}
+
+// A default batch must fit the default gas limit (test/RegistrationGas.ts
+// checks it): 20 parcels take about 8.6M gas
+export const DEFAULT_BATCH_SIZE = 20;
+// Below the 2^24 per-transaction gas cap, leaving most of a block free
+export const DEFAULT_BATCH_GAS_LIMIT = BigInt(10_000_000);
+
+const MAX_BATCH_SIZE = parseInt(
+  process.env.IMPORT_BATCH_SIZE || String(DEFAULT_BATCH_SIZE),
+  10,
+);
+const BATCH_GAS_LIMIT = process.env.IMPORT_BATCH_GAS_LIMIT
+  ? BigInt(process.env.IMPORT_BATCH_GAS_LIMIT)
+  : DEFAULT_BATCH_GAS_LIMIT;
+
+export interface PreparedParcel {
+  land: GovLand;
+  boundary: PolygonGeometry;
+  tokenURI: string;
+}
+
+// Matches the LandRegistration struct taken by registerLands
+export function toRegistration({ land, boundary, tokenURI }: PreparedParcel) {
+  return {
+    surveyNumber: land.surveyNumber,
+    location: `${land.district}, ${land.state}`,
+    state: land.state,
+    latitude: toFixedPoint(land.coordinates.lat),
+    longitude: toFixedPoint(land.coordinates.lng),
+    boundaryHash: boundaryHash(boundary),
+    price: ethers.parseEther(land.price),
+    tokenURI,
+  };
+}
+
+// Survey number => minted token ID for every LandRegistered event in a receipt
+function mintedTokenIds(
+  landRegistry: LandRegistry,
+  receipt: TransactionReceipt,
+): Map<string, string> {
+  const minted = new Map<string, string>();
+  for (const log of receipt.logs) {
+    const parsed = landRegistry.interface.parseLog(log);
+    if (parsed?.name === "LandRegistered") {
+      minted.set(parsed.args.surveyNumber, parsed.args.id.toString());
+    }
+  }
+  return minted;
+}
+
+async function prepareTokenURI(
+  land: GovLand,
+  boundary: PolygonGeometry,
+  store: ImportStore,
+): Promise<string> {
+  // Reuse metadata uploaded by an earlier attempt instead of pinning it twice
+  const uploaded = store.getParcel(land.surveyNumber)?.tokenURI;
+  if (uploaded) return uploaded;
+
+  const tokenURI = await withRetry(
+    `Metadata upload for ${land.surveyNumber}`,
+    async () => uploadMetadata(await createLandMetadata(land, boundary)),
+  );
+  store.updateParcel(land.surveyNumber, { status: "pending", tokenURI });
+  return tokenURI;
+}
+
+// Longest prefix of the pending parcels whose registerLands call fits in
+// BATCH_GAS_LIMIT, shrinking in proportion to the estimate until it does.
+async function nextBatch(
+  landRegistry: LandRegistry,
+  pending: PreparedParcel[],
+): Promise<PreparedParcel[]> {
+  let size = Math.min(MAX_BATCH_SIZE, pending.length);
+  while (size > 1) {
+    const batch = pending.slice(0, size);
+    let gas: bigint;
+    try {
+      gas = await withRetry("Gas estimate", () =>
+        landRegistry.registerLands.estimateGas(batch.map(toRegistration)),
+      );
+    } catch {
+      // Some parcel in the prefix would revert; go one at a time so only it fails
+      return pending.slice(0, 1);
+    }
+    if (gas <= BATCH_GAS_LIMIT) return batch;
+    size = Math.min(
+      size - 1,
+      Math.floor((size * Number(BATCH_GAS_LIMIT)) / Number(gas)),
+    );
+  }
+  return pending.slice(0, 1);
+}
+
+async function registerBatch(
+  landRegistry: LandRegistry,
+  batch: PreparedParcel[],
+  store: ImportStore,
+): Promise<Map<string, string>> {
+  return withRetry(`Batch of ${batch.length}`, async () => {
+    const minted = new Map<string, string>();
+
+    // A transaction sent before a crash may still be pending or mined
+    const submitted = new Set(
+      batch
+        .map(({ land }) => store.getParcel(land.surveyNumber)?.transactionHash)
+        .filter((hash): hash is string => !!hash),
+    );
+    for (const hash of submitted) {
+      const pendingTx = await ethers.provider.getTransaction(hash);
+      const receipt = pendingTx && (await pendingTx.wait());
+      if (receipt) {
+        mintedTokenIds(landRegistry, receipt).forEach((id, surveyNumber) =>
+          minted.set(surveyNumber, id),
+        );
+      }
+    }
+
+    const remaining: PreparedParcel[] = [];
+    for (const parcel of batch) {
+      const { surveyNumber } = parcel.land;
+      if (minted.has(surveyNumber)) continue;
+      if (await landRegistry.isSurveyNumberRegistered(surveyNumber)) {
+        const tokenId =
+          await landRegistry.getTokenIdBySurveyNumber(surveyNumber);
+        minted.set(surveyNumber, tokenId.toString());
+      } else {
+        remaining.push(parcel);
+      }
+    }
+    if (remaining.length === 0) return minted;
+
+    const tx = await landRegistry.registerLands(remaining.map(toRegistration));
+    for (const { land } of remaining) {
+      store.updateParcel(land.surveyNumber, { transactionHash: tx.hash });
+    }
+    mintedTokenIds(landRegistry, await tx.wait()).forEach((id, surveyNumber) =>
+      minted.set(surveyNumber, id),
+    );
+    return minted;
+  });
+}
+
+export interface ImportSummary {
+  registered: number;
+  skipped: number;
+  failed: number;
+  invalid: number;
+}
+
+// Registers every "register" entry of the plan in gas-bounded batches,
+// recording progress in the store after each step so an interrupted import
+// can simply be run again.
+export async function executeImport(
+  landRegistry: LandRegistry,
+  plan: PlannedParcel[],
+  store: ImportStore,
+): Promise<ImportSummary> {
+  const summary: ImportSummary = {
+    registered: 0,
+    skipped: 0,
+    failed: 0,
+    invalid: 0,
+  };
+
+  const markFailed = (land: GovLand, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    // The on-chain survey number check keeps the next run idempotent, so a
+    // hash that never produced a receipt is not worth keeping around
+    store.updateParcel(land.surveyNumber, {
+      status: "failed",
+      transactionHash: undefined,
+      error: message,
+    });
+    console.error(`   ❌ Failed to register ${land.surveyNumber}:`, message);
+    summary.failed++;
+  };
+
+  const prepared: PreparedParcel[] = [];
+  for (let i = 0; i < plan.length; i++) {
+    const { land, action, boundary, tokenId, reason } = plan[i];
+    const prefix = `[${i + 1}/${plan.length}] ${land.surveyNumber}`;
+
+    if (action === "invalid") {
+      console.log(`${prefix} ⛔ Invalid: ${reason}`);
+      summary.invalid++;
+      continue;
+    }
+
+    if (action === "skip") {
+      console.log(`${prefix} ⏭️ Already on chain as Token ID ${tokenId}`);
+      store.updateParcel(land.surveyNumber, {
+        status: "registered",
+        tokenId,
+        error: undefined,
+      });
+      summary.skipped++;
+      continue;
+    }
+
+    console.log(`${prefix} Preparing - ${land.district}, ${land.state}...`);
+    try {
+      const tokenURI = await prepareTokenURI(land, boundary!, store);
+      prepared.push({ land, boundary: boundary!, tokenURI });
+
+      // Small delay to avoid rate limiting
+      await new Promise((resolve) =>
+        setTimeout(resolve, getStorageProvider().uploadDelayMs),
+      );
+    } catch (error) {
+      markFailed(land, error);
+    }
+  }
+
+  let pending = prepared;
+  while (pending.length > 0) {
+    const batch = await nextBatch(landRegistry, pending);
+    pending = pending.slice(batch.length);
+    console.log(
+      `\n📦 Registering batch of ${batch.length} (${
+        pending.length
+      } left after this)...`,
+    );
+
+    try {
+      const minted = await registerBatch(landRegistry, batch, store);
+      for (const { land } of batch) {
+        const mintedId = minted.get(land.surveyNumber);
+        if (mintedId === undefined) {
+          markFailed(land, new Error("Missing from the batch receipt"));
+          continue;
+        }
+        store.updateParcel(land.surveyNumber, {
+          status: "registered",
+          tokenId: mintedId,
+          error: undefined,
+        });
+        console.log(
+          `   ✅ ${land.surveyNumber}: Token ID ${mintedId}, Price: ${land.price} ETH`,
+        );
+        summary.registered++;
+      }
+    } catch (error) {
+      batch.forEach(({ land }) => markFailed(land, error));
+    }
+  }
+
+  return summary;
+}
+
+export function printPlan(plan: PlannedParcel[]): void {
+  for (const { land, action, tokenId, reason } of plan) {
+    const label = `${land.surveyNumber} (${land.district}, ${land.state})`;
+    if (action === "register") {
+      console.log(`   ➕ ${label} - register for ${land.price} ETH`);
+    } else if (action === "skip") {
+      console.log(`   ⏭️ ${label} - already on chain as Token ID ${tokenId}`);
+    } else {
+      console.log(`   ⛔ ${label} - ${reason}`);
+    }
+  }
+}
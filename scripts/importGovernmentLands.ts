@@ -0,0 +1,142 @@
+import { ethers, network } from "hardhat";
+import { getLandRegistry } from "./deployments";
+import {
+  executeImport,
+  loadGovernmentLands,
+  planImport,
+  printPlan,
+} from "./governmentLands";
+import { getStorageProvider } from "./metadataStorage";
+import { DEFAULT_IMPORT_STATE_FILE, ImportStore } from "./importStore";
+
+const STATE_FILE = process.env.IMPORT_STATE_FILE || DEFAULT_IMPORT_STATE_FILE;
+
+interface ImportOptions {
+  dryRun: boolean;
+  address?: string;
+  dataFile?: string;
+}
+
+function parseOptions(args: string[]): ImportOptions {
+  const options: ImportOptions = { dryRun: false };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--address":
+        options.address = args[++i];
+        if (!ethers.isAddress(options.address)) {
+          throw new Error(`Invalid address: ${options.address}`);
+        }
+        break;
+      case "--file":
+        options.dataFile = args[++i];
+        break;
+      default:
+        throw new Error(`Unknown option: ${args[i]}`);
+    }
+  }
+  return options;
+}
+
+async function importLands(options: ImportOptions) {
+  console.log("🏛️ Importing Government Lands...");
+  console.log(`📡 Network: ${network.name}`);
+  console.log(`📁 Metadata Storage: ${getStorageProvider().name}`);
+
+  const [registrar] = await ethers.getSigners();
+  if (!registrar) {
+    throw new Error("No signer account found");
+  }
+  const landRegistry = await getLandRegistry(options.address);
+  const contractAddress = await landRegistry.getAddress();
+  console.log(`📜 Contract: ${contractAddress}`);
+  console.log(`🏛️ Registrar: ${registrar.address}`);
+
+  const lands = loadGovernmentLands(options.dataFile);
+  const plan = await planImport(landRegistry, lands, registrar.address);
+  const count = (action: string) =>
+    plan.filter((parcel) => parcel.action === action).length;
+
+  if (options.dryRun) {
+    console.log(`\n📋 Import Plan (dry run, nothing will be sent):\n`);
+    printPlan(plan);
+    console.log(
+      `\n   Register: ${count("register")}, Skip: ${count(
+        "skip",
+      )}, Invalid: ${count("invalid")}`,
+    );
+    return;
+  }
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const store = new ImportStore(STATE_FILE, contractAddress, Number(chainId));
+  console.log(`📁 State: ${STATE_FILE}\n`);
+
+  const summary = await executeImport(landRegistry, plan, store);
+
+  console.log(`\n📊 Import Summary:`);
+  console.log(`   ✅ Registered: ${summary.registered}`);
+  console.log(`   ⏭️ Already on chain: ${summary.skipped}`);
+  console.log(`   ❌ Failed: ${summary.failed}`);
+  console.log(`   ⛔ Invalid: ${summary.invalid}`);
+  if (summary.failed > 0) {
+    console.log(`\n🔁 Run the import again to retry the failed parcels`);
+    process.exitCode = 1;
+  }
+}
+
+async function printStatus(options: ImportOptions) {
+  const landRegistry = await getLandRegistry(options.address);
+  const contractAddress = await landRegistry.getAddress();
+  const { chainId } = await ethers.provider.getNetwork();
+  const store = new ImportStore(STATE_FILE, contractAddress, Number(chainId));
+
+  console.log(`\n📋 Import State for ${contractAddress}:\n`);
+  if (store.parcels.length === 0) {
+    console.log("   Nothing imported yet");
+    return;
+  }
+  for (const parcel of store.parcels) {
+    const detail =
+      parcel.status === "registered"
+        ? `Token ID ${parcel.tokenId}`
+        : parcel.error || parcel.transactionHash || "";
+    console.log(`   ${parcel.surveyNumber}: ${parcel.status} ${detail}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "run":
+      await importLands(parseOptions(args.slice(1)));
+      break;
+
+    case "status":
+      await printStatus(parseOptions(args.slice(1)));
+      break;
+
+    default:
+      console.log(`
+Import Commands:
+  HARDHAT_NETWORK=localhost npx ts-node scripts/importGovernmentLands.ts run [options]     - Import (or resume importing) the dataset
+  HARDHAT_NETWORK=localhost npx ts-node scripts/importGovernmentLands.ts status [options]  - Show recorded import progress
+
+Options:
+  --dry-run           Validate and print the plan without sending transactions
+  --address <addr>    Target this deployment instead of the active one
+  --file <path>       Import this dataset instead of governmentLandData.json
+      `);
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error("❌ Import failed:", error);
+    process.exitCode = 1;
+  });
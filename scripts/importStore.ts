@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export type ImportStatus = "pending" | "registered" | "failed";
+
+export interface ImportedParcel {
+  surveyNumber: string;
+  status: ImportStatus;
+  tokenId?: string;
+  tokenURI?: string;
+  transactionHash?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+interface ImportData {
+  contractAddress: string;
+  chainId: number;
+  parcels: Record<string, ImportedParcel>;
+}
+
+export const DEFAULT_IMPORT_STATE_FILE = path.join(
+  __dirname,
+  "../.import/importState.json",
+);
+
+export class ImportStore {
+  private data: ImportData;
+
+  constructor(
+    private readonly filePath: string,
+    contractAddress: string,
+    chainId: number,
+  ) {
+    this.data = this.loadState(contractAddress, chainId);
+  }
+
+  private loadState(contractAddress: string, chainId: number): ImportData {
+    const fresh: ImportData = { contractAddress, chainId, parcels: {} };
+
+    if (!fs.existsSync(this.filePath)) return fresh;
+
+    const stored: ImportData = JSON.parse(
+      fs.readFileSync(this.filePath, "utf8"),
+    );
+    // Progress recorded against another deployment says nothing about this one
+    if (
+      stored.contractAddress.toLowerCase() !== contractAddress.toLowerCase() ||
+      stored.chainId !== chainId
+    ) {
+      console.warn(
+        `⚠️ Import state in ${this.filePath} belongs to another deployment - starting fresh`,
+      );
+      return fresh;
+    }
+    return stored;
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  getParcel(surveyNumber: string): ImportedParcel | undefined {
+    return this.data.parcels[surveyNumber];
+  }
+
+  // Merges the changes and persists immediately so a crash loses at most
+  // the parcel in flight.
+  updateParcel(
+    surveyNumber: string,
+    changes: Partial<Omit<ImportedParcel, "surveyNumber">>,
+  ): ImportedParcel {
+    const parcel: ImportedParcel = {
+      ...(this.data.parcels[surveyNumber] ?? {
+        surveyNumber,
+        status: "pending",
+      }),
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    this.data.parcels[surveyNumber] = parcel;
+    this.save();
+    return parcel;
+  }
+
+  get parcels(): ImportedParcel[] {
+    return Object.values(this.data.parcels);
+  }
+}
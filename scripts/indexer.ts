@@ -0,0 +1,340 @@
+import { ethers, network } from "hardhat";
+import { EventLog } from "ethers";
+import { getDeployment, getLandRegistry } from "./deployments";
+import { DEFAULT_STORE_FILE, IndexerStore } from "./indexerStore";
+import { fromFixedPoint } from "../client/src/utils/coordinates";
+
+const STORE_FILE = process.env.INDEXER_STORE || DEFAULT_STORE_FILE;
+const POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_MS || "2000", 10);
+// Max blocks per eth_getLogs request
+const BLOCK_BATCH_SIZE = 2000;
+
+type LandRegistry = Awaited<ReturnType<typeof getLandRegistry>>;
+
+async function applyEvent(
+  event: EventLog,
+  store: IndexerStore,
+  getTimestamp: (blockNumber: number) => Promise<number>,
+) {
+  const args = event.args;
+  const id = args[0]?.toString();
+
+  switch (event.eventName) {
+    case "LandRegistered":
+      store.putLand({
+        id,
+        owner: args.owner,
+        surveyNumber: args.surveyNumber,
+        location: args.location,
+        state: args.state,
+        coordinates: {
+          lat: fromFixedPoint(args.latitude),
+          lng: fromFixedPoint(args.longitude),
+        },
+        price: args.price.toString(),
+        isForSale: true,
+        tokenURI: args.tokenURI,
+        activeLiens: 0,
+        registeredAtBlock: event.blockNumber,
+        updatedAtBlock: event.blockNumber,
+      });
+      console.log(
+        `   🆕 Land #${id} (${args.surveyNumber}) registered in ${args.state}`,
+      );
+      break;
+
+    case "Transfer":
+      // Mints are covered by LandRegistered; every other transfer clears the listing
+      if (args.from === ethers.ZeroAddress) break;
+      store.updateLand(args.tokenId.toString(), event.blockNumber, {
+        owner: args.to,
+        isForSale: false,
+      });
+      break;
+
+    case "LandSold":
+      store.addSale({
+        tokenId: id,
+        seller: args.seller,
+        buyer: args.buyer,
+        price: args.price.toString(),
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: await getTimestamp(event.blockNumber),
+      });
+      console.log(
+        `   💰 Land #${id} sold for ${ethers.formatEther(args.price)} ETH`,
+      );
+      break;
+
+    case "StampDutyPaid": {
+      // Emitted right after the LandSold of the same transaction
+      const sale = store
+        .getSales(id)
+        .find((record) => record.transactionHash === event.transactionHash);
+      if (sale) sale.stampDuty = args.amount.toString();
+      break;
+    }
+
+    case "LandListed":
+      store.updateLand(id, event.blockNumber, {
+        isForSale: true,
+        price: args.price.toString(),
+      });
+      break;
+
+    case "LandDelisted":
+      store.updateLand(id, event.blockNumber, { isForSale: false });
+      break;
+
+    case "PriceUpdated":
+      store.updateLand(id, event.blockNumber, {
+        price: args.newPrice.toString(),
+      });
+      break;
+
+    case "TransferRequested":
+      // Off the market while in escrow; approval emits Transfer and LandSold.
+      // Accepted offers can put unlisted lands in escrow too.
+      store.updateLand(id, event.blockNumber, {
+        isForSale: false,
+        listedBeforeEscrow: store.getLand(id)?.isForSale ?? false,
+      });
+      console.log(`   ⏳ Land #${id} awaiting registrar approval`);
+      break;
+
+    case "TransferRejected":
+    case "TransferExpired": {
+      const relisted = store.getLand(id)?.listedBeforeEscrow ?? true;
+      store.updateLand(id, event.blockNumber, {
+        isForSale: relisted,
+        listedBeforeEscrow: undefined,
+      });
+      console.log(
+        `   ↩️ Land #${id} escrow refunded${
+          relisted ? ", back on the market" : ""
+        }`,
+      );
+      break;
+    }
+
+    case "OfferMade":
+      console.log(
+        `   🤝 Land #${id}: offer of ${ethers.formatEther(args.price)} ETH`,
+      );
+      break;
+
+    case "OfferAccepted":
+      console.log(
+        `   ✅ Land #${id}: offer of ${ethers.formatEther(args.price)} ETH accepted`,
+      );
+      break;
+
+    // Listings are cleared by the LandDelisted emitted alongside
+    case "AuctionStarted":
+      console.log(
+        `   🔨 Land #${id} up for auction, reserve ${ethers.formatEther(
+          args.reservePrice,
+        )} ETH`,
+      );
+      break;
+
+    case "AuctionBid":
+      console.log(
+        `   🔨 Land #${id}: bid of ${ethers.formatEther(args.amount)} ETH`,
+      );
+      break;
+
+    case "AuctionSettled":
+      console.log(
+        args.winner === ethers.ZeroAddress
+          ? `   🔨 Land #${id} auction closed without bids`
+          : `   🔨 Land #${id} auctioned for ${ethers.formatEther(
+              args.price,
+            )} ETH`,
+      );
+      break;
+
+    case "LienRegistered":
+    case "LienReleased": {
+      const activeLiens =
+        (store.getLand(id)?.activeLiens ?? 0) +
+        (event.eventName === "LienRegistered" ? 1 : -1);
+      store.updateLand(id, event.blockNumber, { activeLiens });
+      console.log(
+        `   🏦 Land #${id}: lien ${
+          event.eventName === "LienRegistered" ? "registered" : "released"
+        } (${activeLiens} active)`,
+      );
+      break;
+    }
+
+    case "DocumentAttached":
+      store.addDocument({
+        tokenId: id,
+        index: Number(args.index),
+        docType: args.docType,
+        contentType: args.contentType,
+        uri: args.uri,
+        contentHash: args.contentHash,
+        addedBy: args.addedBy,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      });
+      console.log(`   📄 Land #${id}: ${args.docType} attached`);
+      break;
+  }
+}
+
+async function indexRange(
+  landRegistry: LandRegistry,
+  store: IndexerStore,
+  fromBlock: number,
+  toBlock: number,
+) {
+  const timestamps = new Map<number, number>();
+  const getTimestamp = async (blockNumber: number) => {
+    if (!timestamps.has(blockNumber)) {
+      const block = await ethers.provider.getBlock(blockNumber);
+      timestamps.set(blockNumber, block?.timestamp ?? 0);
+    }
+    return timestamps.get(blockNumber)!;
+  };
+
+  const events = await landRegistry.queryFilter("*", fromBlock, toBlock);
+  for (const event of events) {
+    if (event instanceof EventLog) {
+      await applyEvent(event, store, getTimestamp);
+    }
+  }
+
+  store.lastIndexedBlock = toBlock;
+  store.save();
+}
+
+async function catchUp(landRegistry: LandRegistry, store: IndexerStore) {
+  const latestBlock = await ethers.provider.getBlockNumber();
+
+  for (
+    let fromBlock = store.lastIndexedBlock + 1;
+    fromBlock <= latestBlock;
+    fromBlock += BLOCK_BATCH_SIZE
+  ) {
+    const toBlock = Math.min(fromBlock + BLOCK_BATCH_SIZE - 1, latestBlock);
+    console.log(`📦 Indexing blocks ${fromBlock}-${toBlock}...`);
+    await indexRange(landRegistry, store, fromBlock, toBlock);
+  }
+}
+
+async function openStore() {
+  const deployment = await getDeployment();
+  const { chainId } = await ethers.provider.getNetwork();
+  const deploymentBlock = await ethers.provider.getBlock(
+    deployment.blockNumber,
+  );
+  const store = new IndexerStore(STORE_FILE, {
+    contractAddress: deployment.address,
+    chainId: Number(chainId),
+    deploymentBlock: deployment.blockNumber,
+    // Missing when the node was reset and has not reached the block again
+    deploymentBlockHash: deploymentBlock?.hash ?? "",
+  });
+  // Nothing to index before the contract existed
+  if (store.lastIndexedBlock < deployment.blockNumber - 1) {
+    store.lastIndexedBlock = deployment.blockNumber - 1;
+  }
+  const landRegistry = await getLandRegistry(deployment.address);
+  return { store, landRegistry };
+}
+
+async function follow(once: boolean) {
+  console.log("🔎 Starting Land Registry indexer...");
+  console.log(`📡 Network: ${network.name}`);
+  console.log(`📁 Store: ${STORE_FILE}`);
+
+  const { store, landRegistry } = await openStore();
+  if (store.lastIndexedBlock >= 0) {
+    console.log(`⏩ Resuming after block ${store.lastIndexedBlock}`);
+  }
+
+  let stopping = false;
+  process.on("SIGINT", () => {
+    console.log("\n🛑 Stopping indexer...");
+    stopping = true;
+  });
+
+  do {
+    await catchUp(landRegistry, store);
+    if (once) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  } while (!stopping);
+
+  console.log(
+    `✅ Indexed up to block ${store.lastIndexedBlock}: ${
+      store.landCount
+    } lands, ${store.getSales().length} sales`,
+  );
+}
+
+async function printSales(tokenId?: string) {
+  const { store } = await openStore();
+  const sales = store.getSales(tokenId);
+
+  console.log(
+    `\n📜 Sale History${tokenId !== undefined ? ` for Land #${tokenId}` : ""}:\n`,
+  );
+  if (sales.length === 0) {
+    console.log("   No sales indexed yet");
+    return;
+  }
+  for (const sale of sales) {
+    console.log(
+      `  Land #${sale.tokenId}: ${sale.seller} → ${sale.buyer} for ${ethers.formatEther(
+        sale.price,
+      )} ETH${
+        sale.stampDuty
+          ? ` + ${ethers.formatEther(sale.stampDuty)} ETH stamp duty`
+          : ""
+      }`,
+    );
+    console.log(
+      `      ${new Date(sale.timestamp * 1000).toLocaleString()} (block ${
+        sale.blockNumber
+      }, tx ${sale.transactionHash})\n`,
+    );
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] || "follow";
+
+  switch (command) {
+    case "follow":
+      await follow(false);
+      break;
+
+    case "once":
+      await follow(true);
+      break;
+
+    case "sales":
+      await printSales(args[1]);
+      break;
+
+    default:
+      console.log(`
+Indexer Commands:
+  HARDHAT_NETWORK=localhost npx ts-node scripts/indexer.ts follow         - Index and keep following new blocks
+  HARDHAT_NETWORK=localhost npx ts-node scripts/indexer.ts once           - Catch up to the latest block and exit
+  HARDHAT_NETWORK=localhost npx ts-node scripts/indexer.ts sales [id]     - Print indexed sale history
+      `);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Indexer failed:", error);
+    process.exitCode = 1;
+  });
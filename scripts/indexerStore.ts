@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface IndexedLand {
+  id: string;
+  owner: string;
+  surveyNumber: string;
+  location: string;
+  state: string;
+  coordinates: { lat: number; lng: number };
+  price: string; // wei
+  isForSale: boolean;
+  // Set while an escrowed sale is pending; a refund relists only listed lands
+  listedBeforeEscrow?: boolean;
+  // Unreleased liens; missing in indexes written before liens existed
+  activeLiens?: number;
+  tokenURI: string;
+  registeredAtBlock: number;
+  updatedAtBlock: number;
+}
+
+export interface SaleRecord {
+  tokenId: string;
+  seller: string;
+  buyer: string;
+  price: string; // wei
+  stampDuty?: string; // wei, paid by the buyer on top of the price
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface DocumentRecord {
+  tokenId: string;
+  index: number;
+  docType: string;
+  contentType: string;
+  uri: string;
+  contentHash: string; // sha256 of the file
+  addedBy: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// The deployment an index was built from. Address and chain alone do not
+// identify it: a restarted Hardhat node redeploys to the same address on
+// chain 31337, so the deployment block's hash is compared as well.
+export interface IndexedDeployment {
+  contractAddress: string;
+  chainId: number;
+  deploymentBlock: number;
+  deploymentBlockHash: string;
+}
+
+interface IndexerData extends IndexedDeployment {
+  lastIndexedBlock: number;
+  lands: Record<string, IndexedLand>;
+  sales: SaleRecord[];
+  documents: DocumentRecord[];
+}
+
+export const DEFAULT_STORE_FILE = path.join(
+  __dirname,
+  "../.indexer/landIndex.json",
+);
+
+export class IndexerStore {
+  private data: IndexerData;
+
+  constructor(
+    private readonly filePath: string,
+    deployment: IndexedDeployment,
+  ) {
+    this.data = this.loadStore(deployment);
+  }
+
+  private loadStore(deployment: IndexedDeployment): IndexerData {
+    const fresh: IndexerData = {
+      ...deployment,
+      lastIndexedBlock: -1,
+      lands: {},
+      sales: [],
+      documents: [],
+    };
+
+    if (!fs.existsSync(this.filePath)) return fresh;
+
+    const stored: IndexerData = JSON.parse(
+      fs.readFileSync(this.filePath, "utf8"),
+    );
+    // A redeployed contract or a restarted node invalidates the old index
+    if (
+      stored.contractAddress.toLowerCase() !==
+        deployment.contractAddress.toLowerCase() ||
+      stored.chainId !== deployment.chainId ||
+      stored.deploymentBlock !== deployment.deploymentBlock ||
+      stored.deploymentBlockHash !== deployment.deploymentBlockHash
+    ) {
+      console.warn(
+        `⚠️ Index in ${this.filePath} belongs to another deployment - starting fresh`,
+      );
+      return fresh;
+    }
+    // Indexes written before documents were tracked
+    stored.documents ??= [];
+    return stored;
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written index
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  get lastIndexedBlock(): number {
+    return this.data.lastIndexedBlock;
+  }
+
+  set lastIndexedBlock(blockNumber: number) {
+    this.data.lastIndexedBlock = blockNumber;
+  }
+
+  getLand(id: string): IndexedLand | undefined {
+    return this.data.lands[id];
+  }
+
+  putLand(land: IndexedLand): void {
+    this.data.lands[land.id] = land;
+  }
+
+  updateLand(
+    id: string,
+    blockNumber: number,
+    changes: Partial<IndexedLand>,
+  ): void {
+    const land = this.data.lands[id];
+    if (!land) {
+      console.warn(`⚠️ Event for unknown land #${id} - skipping`);
+      return;
+    }
+    Object.assign(land, changes, { updatedAtBlock: blockNumber });
+  }
+
+  addSale(sale: SaleRecord): void {
+    this.data.sales.push(sale);
+  }
+
+  getSales(tokenId?: string): SaleRecord[] {
+    return tokenId === undefined
+      ? this.data.sales
+      : this.data.sales.filter((sale) => sale.tokenId === tokenId);
+  }
+
+  addDocument(document: DocumentRecord): void {
+    this.data.documents.push(document);
+  }
+
+  getDocuments(tokenId: string): DocumentRecord[] {
+    return this.data.documents.filter(
+      (document) => document.tokenId === tokenId,
+    );
+  }
+
+  get landCount(): number {
+    return Object.keys(this.data.lands).length;
+  }
+}
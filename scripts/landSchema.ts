@@ -0,0 +1,80 @@
+import { ValidateFunction } from "ajv";
+import {
+  AREA_PATTERN,
+  ValidationIssue,
+  ajv,
+  coordinatesSchema,
+  nonEmptyString,
+  surveyNumberOf,
+  toIssues,
+} from "../client/src/utils/landSchema";
+import { LAND_TYPES } from "../client/src/utils/landMetadata";
+import { GovLand } from "./governmentLands";
+
+// Government dataset records. The token metadata schema lives with the
+// client, whose upload route validates with it too.
+
+// Non-zero decimal ETH amounts that ethers.parseEther accepts; the contract
+// refuses to list land for free
+const ETH_AMOUNT_PATTERN = "^(?=.*[1-9])\\d+(\\.\\d{1,18})?$";
+
+const govLandSchema = {
+  type: "object",
+  required: [
+    "surveyNumber",
+    "location",
+    "district",
+    "state",
+    "area",
+    "landType",
+    "price",
+    "description",
+    "coordinates",
+  ],
+  // Catches misspelt keys that would otherwise be silently ignored
+  additionalProperties: false,
+  properties: {
+    surveyNumber: nonEmptyString,
+    location: nonEmptyString,
+    district: nonEmptyString,
+    state: nonEmptyString,
+    area: { type: "string", pattern: AREA_PATTERN },
+    landType: { type: "string", enum: LAND_TYPES },
+    price: { type: "string", pattern: ETH_AMOUNT_PATTERN },
+    description: { type: "string" },
+    coordinates: coordinatesSchema,
+  },
+};
+
+const validateGovLandRecord: ValidateFunction<GovLand> =
+  ajv.compile(govLandSchema);
+
+export function validateGovLands(records: unknown[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  records.forEach((record, index) => {
+    const surveyNumber = surveyNumberOf(record, `record #${index + 1}`);
+    if (!validateGovLandRecord(record)) {
+      issues.push(...toIssues(surveyNumber, validateGovLandRecord.errors));
+    } else if (seen.has(record.surveyNumber)) {
+      issues.push({
+        surveyNumber,
+        field: "surveyNumber",
+        message: "is duplicated in the dataset",
+      });
+    }
+    seen.add(surveyNumber);
+  });
+
+  return issues;
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(
+      ({ surveyNumber, field, message }) =>
+        `   ${surveyNumber} → ${field}: ${message}`,
+    )
+    .join("\n");
+}
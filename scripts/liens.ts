@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import { getLandRegistry } from "./deployments";
+import { hashDocument } from "./metadataStorage";
+
+async function getTokenId(surveyNumber: string) {
+  const landRegistry = await getLandRegistry();
+  if (!(await landRegistry.isSurveyNumberRegistered(surveyNumber))) {
+    throw new Error(`Survey number not registered: ${surveyNumber}`);
+  }
+  return {
+    landRegistry,
+    tokenId: await landRegistry.getTokenIdBySurveyNumber(surveyNumber),
+  };
+}
+
+// Only the deed's hash goes on chain; the deed stays with the lender
+async function register(
+  surveyNumber: string,
+  amount: string,
+  deedPath: string,
+) {
+  if (!deedPath || !fs.existsSync(deedPath)) {
+    throw new Error(`Deed file not found: ${deedPath}`);
+  }
+  const { landRegistry, tokenId } = await getTokenId(surveyNumber);
+  const value = ethers.parseEther(amount);
+  const documentHash = hashDocument(fs.readFileSync(deedPath));
+
+  const tx = await landRegistry.registerLien(tokenId, value, documentHash);
+  await tx.wait();
+
+  console.log("✅ Lien registered!");
+  console.log(`   Land: #${tokenId} (${surveyNumber})`);
+  console.log(`   Amount: ${amount} ETH`);
+  console.log(`   Deed SHA-256: ${documentHash}`);
+  console.log(
+    "   The parcel cannot be sold or transferred until it is released",
+  );
+}
+
+async function release(surveyNumber: string, index: number) {
+  const { landRegistry, tokenId } = await getTokenId(surveyNumber);
+  const tx = await landRegistry.releaseLien(tokenId, index);
+  await tx.wait();
+
+  const { activeLiens } = await landRegistry.lands(tokenId);
+  console.log("✅ Lien released!");
+  console.log(`   Land: #${tokenId} (${surveyNumber}), lien [${index}]`);
+  console.log(
+    activeLiens === BigInt(0)
+      ? "   No active liens remain - the parcel can be transferred"
+      : `   ${activeLiens} active lien(s) remain`,
+  );
+}
+
+async function list(surveyNumber: string) {
+  const { landRegistry, tokenId } = await getTokenId(surveyNumber);
+  const liens = await landRegistry.getLiens(tokenId);
+
+  console.log(`\n🏦 Liens on Land #${tokenId} (${surveyNumber}):\n`);
+  if (liens.length === 0) {
+    console.log("   No liens registered");
+    return;
+  }
+  for (let index = 0; index < liens.length; index++) {
+    const lien = liens[index];
+    console.log(
+      `  [${index}] ${ethers.formatEther(lien.amount)} ETH to ${lien.lender} - ${
+        lien.released ? "released" : "ACTIVE"
+      }`,
+    );
+    console.log(`      Deed SHA-256: ${lien.documentHash}`);
+    console.log(
+      `      Registered ${new Date(
+        Number(lien.registeredAt) * 1000,
+      ).toLocaleString()}\n`,
+    );
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "register":
+      await register(args[1], args[2], args[3]);
+      break;
+
+    case "release":
+      await release(args[1], Number(args[2]));
+      break;
+
+    case "list":
+      await list(args[1]);
+      break;
+
+    default:
+      console.log(`
+Lien Commands (register and release run as the lender):
+  HARDHAT_NETWORK=localhost npx ts-node scripts/liens.ts register <surveyNumber> <amount> <deedFile>  - Register a lien (amount in ETH)
+  HARDHAT_NETWORK=localhost npx ts-node scripts/liens.ts release <surveyNumber> <index>               - Release one of your liens
+  HARDHAT_NETWORK=localhost npx ts-node scripts/liens.ts list <surveyNumber>                          - Show a parcel's liens
+      `);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
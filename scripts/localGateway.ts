@@ -0,0 +1,52 @@
+import * as http from "http";
+import * as dotenv from "dotenv";
+import { LocalStorageProvider } from "../client/src/utils/storageProviders";
+import { DEFAULT_LOCAL_STORAGE_DIR } from "./metadataStorage";
+
+dotenv.config();
+
+const PORT = parseInt(process.env.LOCAL_GATEWAY_PORT || "8080", 10);
+const STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR;
+
+// Read-only IPFS-style gateway over the local store: GET /ipfs/<cid>
+function main() {
+  const storage = new LocalStorageProvider(STORAGE_DIR);
+
+  const server = http.createServer((request, response) => {
+    // The client fetches metadata from the browser
+    response.setHeader("Access-Control-Allow-Origin", "*");
+
+    const match = request.url?.match(/^\/ipfs\/([^/?#]+)/);
+    if (request.method !== "GET" || !match) {
+      response.writeHead(404).end("Not found");
+      return;
+    }
+
+    const stored = storage.get(match[1]);
+    if (!stored) {
+      response.writeHead(404).end("Unknown CID");
+      return;
+    }
+
+    response.writeHead(200, {
+      "Content-Type": stored.info.contentType,
+      "Content-Length": stored.content.length,
+      // Content behind a CID never changes
+      "Cache-Control": "public, max-age=31536000, immutable",
+    });
+    response.end(stored.content);
+  });
+
+  server.listen(PORT, () => {
+    console.log("🌐 Local IPFS gateway running");
+    console.log(`📁 Store: ${STORAGE_DIR}`);
+    console.log(`🔗 http://localhost:${PORT}/ipfs/<cid>`);
+  });
+
+  process.on("SIGINT", () => {
+    console.log("\n🛑 Stopping gateway...");
+    server.close(() => process.exit(0));
+  });
+}
+
+main();
@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { createHash } from "crypto";
+import { LandMetadata } from "../client/src/utils/landMetadata";
+import {
+  LocalStorageProvider,
+  StorageProvider,
+  createStorageProvider,
+} from "../client/src/utils/storageProviders";
+import { validateLandMetadata } from "../client/src/utils/landSchema";
+import { formatIssues } from "./landSchema";
+
+dotenv.config();
+
+export const DEFAULT_LOCAL_STORAGE_DIR = path.join(
+  __dirname,
+  "../.storage/ipfs",
+);
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+const DOCUMENT_CONTENT_TYPES: Record<string, string> = {
+  ...IMAGE_CONTENT_TYPES,
+  ".pdf": "application/pdf",
+};
+
+// Title documents a parcel may carry; attachDocument stores the key
+export const DOCUMENT_TYPES: Record<string, string> = {
+  "sale-deed": "Sale Deed",
+  "encumbrance-certificate": "Encumbrance Certificate",
+  "survey-sketch": "Survey Sketch",
+  "tax-receipt": "Tax Receipt",
+  other: "Other",
+};
+
+export interface StoredDocument {
+  uri: string;
+  contentType: string;
+  // 0x-prefixed sha256 of the file, as recorded on chain
+  contentHash: string;
+}
+
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+const FETCH_TIMEOUT_MS = 8000;
+
+let provider: StorageProvider | undefined;
+
+// The same providers the client's upload routes use, see
+// client/src/utils/storageProviders.ts
+export function getStorageProvider(): StorageProvider {
+  provider ??= createStorageProvider(DEFAULT_LOCAL_STORAGE_DIR);
+  return provider;
+}
+
+export async function uploadMetadata(metadata: LandMetadata): Promise<string> {
+  const issues = validateLandMetadata(metadata);
+  if (issues.length > 0) {
+    throw new Error(
+      `Refusing to upload invalid metadata:\n${formatIssues(issues)}`,
+    );
+  }
+
+  const storage = getStorageProvider();
+  try {
+    const { uri } = await storage.uploadJSON(
+      `${metadata.properties.surveyNumber}.json`,
+      metadata,
+    );
+    console.log(`✅ Metadata uploaded (${storage.name}): ${uri}`);
+    return uri;
+  } catch (error) {
+    console.error(`❌ Error uploading metadata to ${storage.name}:`, error);
+    throw error;
+  }
+}
+
+export async function uploadImage(imagePath: string): Promise<string> {
+  const storage = getStorageProvider();
+  const contentType =
+    IMAGE_CONTENT_TYPES[path.extname(imagePath).toLowerCase()] ||
+    "application/octet-stream";
+  try {
+    const { uri } = await storage.uploadFile(
+      path.basename(imagePath),
+      fs.readFileSync(imagePath),
+      contentType,
+    );
+    console.log(`✅ Image uploaded (${storage.name}): ${uri}`);
+    return uri;
+  } catch (error) {
+    console.error(`❌ Error uploading image to ${storage.name}:`, error);
+    throw error;
+  }
+}
+
+export async function uploadBatchMetadata(
+  metadataArray: LandMetadata[],
+): Promise<string[]> {
+  const storage = getStorageProvider();
+  const uris: string[] = [];
+
+  for (const metadata of metadataArray) {
+    uris.push(await uploadMetadata(metadata));
+    await new Promise((resolve) => setTimeout(resolve, storage.uploadDelayMs));
+  }
+
+  return uris;
+}
+
+// Reads the JSON behind a token URI. ipfs:// content comes from the local
+// store when it has it and from IPFS_GATEWAY otherwise.
+export async function fetchJSON(uri: string): Promise<unknown> {
+  let url = uri;
+  if (uri.startsWith("ipfs://")) {
+    const cid = uri.slice("ipfs://".length).replace(/^ipfs\//, "");
+    const stored = new LocalStorageProvider(
+      process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR,
+    ).get(cid);
+    if (stored) return JSON.parse(stored.content.toString("utf8"));
+    url = `${IPFS_GATEWAY}${cid}`;
+  }
+
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function hashDocument(content: Buffer): string {
+  return `0x${createHash("sha256").update(content).digest("hex")}`;
+}
+
+export async function uploadDocument(
+  filePath: string,
+): Promise<StoredDocument> {
+  const contentType =
+    DOCUMENT_CONTENT_TYPES[path.extname(filePath).toLowerCase()];
+  if (!contentType) {
+    throw new Error(`Documents must be PDFs or images: ${filePath}`);
+  }
+
+  const storage = getStorageProvider();
+  const content = fs.readFileSync(filePath);
+  try {
+    const { uri } = await storage.uploadFile(
+      path.basename(filePath),
+      content,
+      contentType,
+    );
+    console.log(`✅ Document uploaded (${storage.name}): ${uri}`);
+    return { uri, contentType, contentHash: hashDocument(content) };
+  } catch (error) {
+    console.error(`❌ Error uploading document to ${storage.name}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,106 @@
+import { ethers } from "hardhat";
+import { getLandRegistry } from "./deployments";
+
+async function grant(address: string, state: string) {
+  const landRegistry = await getLandRegistry();
+  const tx = await landRegistry.grantRegistrar(address, state);
+  await tx.wait();
+
+  console.log("✅ Registrar granted!");
+  console.log(`   Address: ${address}`);
+  console.log(`   Jurisdiction: ${state || "All states"}`);
+}
+
+async function revoke(address: string) {
+  const landRegistry = await getLandRegistry();
+  const tx = await landRegistry.revokeRegistrar(address);
+  await tx.wait();
+
+  console.log("✅ Registrar revoked!");
+  console.log(`   Address: ${address}`);
+}
+
+async function grantLender(address: string) {
+  const landRegistry = await getLandRegistry();
+  const tx = await landRegistry.grantLender(address);
+  await tx.wait();
+
+  console.log("✅ Lender granted!");
+  console.log(`   Address: ${address}`);
+}
+
+async function revokeLender(address: string) {
+  const landRegistry = await getLandRegistry();
+  const tx = await landRegistry.revokeLender(address);
+  await tx.wait();
+
+  console.log("✅ Lender revoked!");
+  console.log(`   Address: ${address}`);
+  console.log("   Liens it registered stay until it releases them");
+}
+
+async function status(address: string) {
+  const landRegistry = await getLandRegistry();
+  const owner = await landRegistry.owner();
+  const [active, state] = await landRegistry.registrars(address);
+  const isLender = await landRegistry.lenders(address);
+
+  console.log(`\n🏛️ Registrar Status: ${address}`);
+  if (owner.toLowerCase() === address.toLowerCase()) {
+    console.log("   Role: Contract owner (Government) - all states");
+  } else if (active) {
+    console.log(`   Role: Registrar - ${state || "All states"}`);
+  } else {
+    console.log("   Role: None (cannot register land)");
+  }
+  console.log(`   Lender: ${isLender ? "Yes (can register liens)" : "No"}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  const address = args[1];
+
+  if (command && command !== "help" && !ethers.isAddress(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+
+  switch (command) {
+    case "grant":
+      // Omit the state to grant a nationwide registrar
+      await grant(address, args.slice(2).join(" "));
+      break;
+
+    case "revoke":
+      await revoke(address);
+      break;
+
+    case "grant-lender":
+      await grantLender(address);
+      break;
+
+    case "revoke-lender":
+      await revokeLender(address);
+      break;
+
+    case "status":
+      await status(address);
+      break;
+
+    default:
+      console.log(`
+Registrar and Lender Role Commands (run as the contract owner):
+  HARDHAT_NETWORK=localhost npx ts-node scripts/roles.ts grant <address> <state>  - Grant a state registrar
+  HARDHAT_NETWORK=localhost npx ts-node scripts/roles.ts grant <address>          - Grant a nationwide registrar
+  HARDHAT_NETWORK=localhost npx ts-node scripts/roles.ts revoke <address>         - Revoke a registrar
+  HARDHAT_NETWORK=localhost npx ts-node scripts/roles.ts grant-lender <address>   - Let a bank or lender register liens
+  HARDHAT_NETWORK=localhost npx ts-node scripts/roles.ts revoke-lender <address>  - Revoke a lender
+  HARDHAT_NETWORK=localhost npx ts-node scripts/roles.ts status <address>         - Show an account's roles
+      `);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
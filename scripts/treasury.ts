@@ -0,0 +1,166 @@
+import { ethers } from "hardhat";
+import { EventLog } from "ethers";
+import { getDeployment, getLandRegistry } from "./deployments";
+
+function formatRate(bps: bigint): string {
+  return `${Number(bps) / 100}%`;
+}
+
+// "5.5" => 550 basis points
+function parsePercent(value: string): number {
+  const percent = Number(value);
+  if (!value || !Number.isFinite(percent) || percent < 0) {
+    throw new Error(`Invalid percentage: ${value}`);
+  }
+  return Math.round(percent * 100);
+}
+
+async function report() {
+  const deployment = await getDeployment();
+  const landRegistry = await getLandRegistry(deployment.address);
+
+  const [treasury, balance, total, defaultRate] = await Promise.all([
+    landRegistry.treasury(),
+    landRegistry.treasuryBalance(),
+    landRegistry.totalStampDuty(),
+    landRegistry.defaultStampDutyBps(),
+  ]);
+  const [payments, rateChanges, withdrawals] = await Promise.all([
+    landRegistry.queryFilter(
+      landRegistry.filters.StampDutyPaid(),
+      deployment.blockNumber,
+    ),
+    landRegistry.queryFilter(
+      landRegistry.filters.StampDutySet(),
+      deployment.blockNumber,
+    ),
+    landRegistry.queryFilter(
+      landRegistry.filters.TreasuryWithdrawn(),
+      deployment.blockNumber,
+    ),
+  ]);
+
+  console.log(`\n🏛️ Treasury: ${treasury}`);
+  console.log(`   Balance held: ${ethers.formatEther(balance)} ETH`);
+  console.log(`   Collected to date: ${ethers.formatEther(total)} ETH`);
+  let withdrawn = BigInt(0);
+  for (const event of withdrawals) {
+    withdrawn += (event as EventLog).args.amount as bigint;
+  }
+  console.log(`   Withdrawn to date: ${ethers.formatEther(withdrawn)} ETH`);
+
+  console.log(`\n📜 Stamp Duty Rates:`);
+  console.log(`   Default: ${formatRate(defaultRate)}`);
+  const ratedStates = new Set<string>();
+  for (const event of rateChanges) {
+    const state = (event as EventLog).args.state as string;
+    if (state) ratedStates.add(state);
+  }
+  for (const state of [...ratedStates].sort()) {
+    console.log(
+      `   ${state}: ${formatRate(await landRegistry.stampDutyBps(state))}`,
+    );
+  }
+
+  const byState = new Map<string, { sales: number; amount: bigint }>();
+  for (const event of payments) {
+    const { state, amount } = (event as EventLog).args;
+    const entry = byState.get(state) ?? { sales: 0, amount: BigInt(0) };
+    entry.sales += 1;
+    entry.amount += amount;
+    byState.set(state, entry);
+  }
+
+  console.log(`\n💰 Collected by State:`);
+  if (byState.size === 0) {
+    console.log("   No sales yet");
+    return;
+  }
+  for (const [state, { sales, amount }] of [...byState].sort()) {
+    console.log(
+      `   ${state}: ${ethers.formatEther(amount)} ETH from ${sales} sale${
+        sales === 1 ? "" : "s"
+      }`,
+    );
+  }
+}
+
+async function withdraw(amount?: string) {
+  const landRegistry = await getLandRegistry();
+  const value =
+    amount === undefined
+      ? await landRegistry.treasuryBalance()
+      : ethers.parseEther(amount);
+  if (value === BigInt(0)) {
+    console.log("ℹ️ Nothing to withdraw");
+    return;
+  }
+
+  const tx = await landRegistry.withdrawTreasury(value);
+  await tx.wait();
+
+  console.log("✅ Treasury withdrawn!");
+  console.log(`   Amount: ${ethers.formatEther(value)} ETH`);
+  console.log(`   To: ${await landRegistry.treasury()}`);
+}
+
+async function setRate(percent: string, state: string) {
+  const landRegistry = await getLandRegistry();
+  const bps = parsePercent(percent);
+  const tx = await landRegistry.setStampDuty(state, bps);
+  await tx.wait();
+
+  console.log("✅ Stamp duty updated!");
+  console.log(`   ${state || "Default"}: ${formatRate(BigInt(bps))}`);
+}
+
+async function setTreasury(address: string) {
+  if (!ethers.isAddress(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  const landRegistry = await getLandRegistry();
+  const tx = await landRegistry.setTreasury(address);
+  await tx.wait();
+
+  console.log("✅ Treasury updated!");
+  console.log(`   Address: ${address}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "report":
+      await report();
+      break;
+
+    case "withdraw":
+      await withdraw(args[1]);
+      break;
+
+    case "set-rate":
+      // Omit the state to set the default rate
+      await setRate(args[1], args.slice(2).join(" "));
+      break;
+
+    case "set-treasury":
+      await setTreasury(args[1]);
+      break;
+
+    default:
+      console.log(`
+Treasury Commands (changes run as the contract owner):
+  HARDHAT_NETWORK=localhost npx ts-node scripts/treasury.ts report                      - Show balance, rates and duty collected per state
+  HARDHAT_NETWORK=localhost npx ts-node scripts/treasury.ts withdraw [amount]           - Send collected duty (ETH, default all) to the treasury
+  HARDHAT_NETWORK=localhost npx ts-node scripts/treasury.ts set-rate <percent> <state>  - Set a state's stamp duty
+  HARDHAT_NETWORK=localhost npx ts-node scripts/treasury.ts set-rate <percent>          - Set the default stamp duty
+  HARDHAT_NETWORK=localhost npx ts-node scripts/treasury.ts set-treasury <address>      - Change the treasury address
+      `);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
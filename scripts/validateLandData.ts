@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import {
+  GovLand,
+  createLandBoundary,
+  createLandMetadata,
+  readGovernmentData,
+} from "./governmentLands";
+import {
+  ValidationIssue,
+  validateLandMetadata,
+} from "../client/src/utils/landSchema";
+import { formatIssues, validateGovLands } from "./landSchema";
+
+function report(label: string, checked: number, issues: ValidationIssue[]) {
+  if (issues.length === 0) {
+    console.log(`✅ ${label}: ${checked} record(s) valid`);
+    return;
+  }
+  const records = new Set(issues.map((issue) => issue.surveyNumber)).size;
+  console.log(
+    `❌ ${label}: ${records} of ${checked} record(s) invalid, ${issues.length} issue(s)\n`,
+  );
+  console.log(formatIssues(issues));
+  process.exitCode = 1;
+}
+
+async function validateDataset(filePath?: string) {
+  const records = readGovernmentData(filePath);
+  const issues = validateGovLands(records);
+
+  // Also check the metadata each valid record would be uploaded as
+  const invalid = new Set(issues.map((issue) => issue.surveyNumber));
+  for (const record of records as GovLand[]) {
+    if (invalid.has(record.surveyNumber)) continue;
+    const metadata = await createLandMetadata(
+      record,
+      createLandBoundary(record),
+    );
+    issues.push(...validateLandMetadata(metadata));
+  }
+
+  report(filePath ?? "governmentLandData.json", records.length, issues);
+}
+
+function validateMetadataFiles(filePaths: string[]) {
+  const issues = filePaths.flatMap((filePath) =>
+    validateLandMetadata(JSON.parse(fs.readFileSync(filePath, "utf8"))).map(
+      (issue) => ({
+        ...issue,
+        surveyNumber: `${filePath} (${issue.surveyNumber})`,
+      }),
+    ),
+  );
+  report("Metadata", filePaths.length, issues);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  switch (command) {
+    case "dataset":
+      await validateDataset(args[1]);
+      break;
+
+    case "metadata":
+      if (args.length < 2) {
+        throw new Error("No metadata files given");
+      }
+      validateMetadataFiles(args.slice(1));
+      break;
+
+    default:
+      console.log(`
+Validation Commands:
+  npx ts-node scripts/validateLandData.ts dataset [file]       - Check a government land dataset (default: governmentLandData.json)
+  npx ts-node scripts/validateLandData.ts metadata <files...>  - Check LandMetadata JSON files
+      `);
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error("❌ Validation failed:", error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,825 @@
+import { expect } from "chai";
+import { Contract, Signer } from "ethers";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+const ETH = ethers.parseEther;
+const ESCROW_PERIOD = 3600;
+const AUCTION_DURATION = 3600;
+// Bids this close to the end push it back by as much
+const AUCTION_EXTENSION = 600;
+
+async function deployFixture() {
+  const [owner, seller, buyer, registrar, other] = await ethers.getSigners();
+  const LandRegistry = await ethers.getContractFactory("LandRegistry");
+  const landRegistry = (await LandRegistry.deploy()) as Contract;
+
+  // Land #0 in Goa and #1 in Kerala, registered and listed by the owner
+  await landRegistry.registerLand(
+    "GA-0",
+    "Panaji",
+    "Goa",
+    0,
+    0,
+    ethers.id("GA-0"),
+    ETH("1"),
+    "ipfs://ga-0",
+  );
+  await landRegistry.registerLand(
+    "KL-1",
+    "Kochi",
+    "Kerala",
+    0,
+    0,
+    ethers.id("KL-1"),
+    ETH("2"),
+    "ipfs://kl-1",
+  );
+  return { landRegistry, owner, seller, buyer, registrar, other };
+}
+
+// Without generated contract types connect() returns a bare BaseContract
+function connect(landRegistry: Contract, signer: Signer): Contract {
+  return landRegistry.connect(signer) as Contract;
+}
+
+async function balanceOf(account: { getAddress(): Promise<string> }) {
+  return ethers.provider.getBalance(await account.getAddress());
+}
+
+async function gasCost(tx: {
+  wait(): Promise<{ gasUsed: bigint; gasPrice: bigint } | null>;
+}) {
+  const receipt = (await tx.wait())!;
+  return receipt.gasUsed * receipt.gasPrice;
+}
+
+describe("LandRegistry", function () {
+  describe("Sales and stamp duty", function () {
+    it("settles at the listed price and refunds overpayment", async function () {
+      const { landRegistry, owner, buyer } = await loadFixture(deployFixture);
+      const sellerBalance = await balanceOf(owner);
+      const buyerBalance = await balanceOf(buyer);
+
+      const tx = await connect(landRegistry, buyer).buyLand(0, {
+        value: ETH("3"),
+      });
+      await expect(tx)
+        .to.emit(landRegistry, "LandSold")
+        .withArgs(0, owner.address, buyer.address, ETH("1"));
+
+      expect(await landRegistry.ownerOf(0)).to.equal(buyer.address);
+      expect(await balanceOf(owner)).to.equal(sellerBalance + ETH("1"));
+      expect(await balanceOf(buyer)).to.equal(
+        buyerBalance - ETH("1") - (await gasCost(tx)),
+      );
+      expect(await balanceOf(landRegistry)).to.equal(0);
+    });
+
+    it("rejects payments below the price plus stamp duty", async function () {
+      const { landRegistry, buyer } = await loadFixture(deployFixture);
+      await landRegistry.setStampDuty("Goa", 500);
+
+      await expect(
+        connect(landRegistry, buyer).buyLand(0, { value: ETH("1") }),
+      ).to.be.revertedWith("Insufficient funds");
+    });
+
+    it("collects each state's stamp duty for the treasury", async function () {
+      const { landRegistry, owner, buyer, other } =
+        await loadFixture(deployFixture);
+      // 5% everywhere except Kerala
+      await landRegistry.setStampDuty("", 500);
+      await landRegistry.setStampDuty("Kerala", 0);
+      expect(await landRegistry.stampDutyBps("Goa")).to.equal(500);
+      expect(await landRegistry.stampDutyBps("Kerala")).to.equal(0);
+
+      const quote = await landRegistry.quotePurchase(0);
+      expect(quote.stampDuty).to.equal(ETH("0.05"));
+      expect(quote.total).to.equal(ETH("1.05"));
+
+      const sellerBalance = await balanceOf(owner);
+      const buyerBalance = await balanceOf(buyer);
+      const tx = await connect(landRegistry, buyer).buyLand(0, {
+        value: ETH("2"),
+      });
+      await expect(tx)
+        .to.emit(landRegistry, "StampDutyPaid")
+        .withArgs(0, buyer.address, "Goa", ETH("0.05"));
+      expect(await balanceOf(owner)).to.equal(sellerBalance + ETH("1"));
+      expect(await balanceOf(buyer)).to.equal(
+        buyerBalance - ETH("1.05") - (await gasCost(tx)),
+      );
+
+      await connect(landRegistry, other).buyLand(1, { value: ETH("2") });
+      expect(await landRegistry.treasuryBalance()).to.equal(ETH("0.05"));
+      expect(await landRegistry.totalStampDuty()).to.equal(ETH("0.05"));
+      expect(await balanceOf(landRegistry)).to.equal(ETH("0.05"));
+    });
+
+    it("caps stamp duty and limits who sets it", async function () {
+      const { landRegistry, other } = await loadFixture(deployFixture);
+
+      await expect(landRegistry.setStampDuty("Goa", 2001)).to.be.revertedWith(
+        "Stamp duty too high",
+      );
+      await expect(
+        connect(landRegistry, other).setStampDuty("Goa", 100),
+      ).to.be.revertedWithCustomError(
+        landRegistry,
+        "OwnableUnauthorizedAccount",
+      );
+    });
+
+    it("pays the treasury out of its balance only", async function () {
+      const { landRegistry, buyer, other } = await loadFixture(deployFixture);
+      await landRegistry.setStampDuty("", 500);
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.05") });
+      await landRegistry.setTreasury(other.address);
+
+      await expect(
+        connect(landRegistry, buyer).withdrawTreasury(1),
+      ).to.be.revertedWith("Not the treasury");
+      await expect(
+        connect(landRegistry, other).withdrawTreasury(ETH("1")),
+      ).to.be.revertedWith("Insufficient treasury balance");
+
+      const treasuryBalance = await balanceOf(other);
+      await expect(landRegistry.withdrawTreasury(ETH("0.05")))
+        .to.emit(landRegistry, "TreasuryWithdrawn")
+        .withArgs(other.address, ETH("0.05"));
+      expect(await balanceOf(other)).to.equal(treasuryBalance + ETH("0.05"));
+      expect(await landRegistry.treasuryBalance()).to.equal(0);
+      expect(await balanceOf(landRegistry)).to.equal(0);
+    });
+  });
+
+  describe("Escrow", function () {
+    // Land #0 listed by `seller` with 10% stamp duty and escrow turned on
+    async function escrowFixture() {
+      const fixture = await deployFixture();
+      const { landRegistry, owner, seller, registrar } = fixture;
+      await landRegistry.grantRegistrar(registrar.address, "Goa");
+      await landRegistry.transferFrom(owner.address, seller.address, 0);
+      await connect(landRegistry, seller).listLand(0, ETH("1"));
+      await landRegistry.setStampDuty("", 1000);
+      await landRegistry.setEscrowPeriod(ESCROW_PERIOD);
+      return fixture;
+    }
+
+    it("holds the payment until a registrar approves", async function () {
+      const { landRegistry, seller, buyer, registrar } =
+        await loadFixture(escrowFixture);
+
+      await expect(
+        connect(landRegistry, buyer).buyLand(0, { value: ETH("2") }),
+      ).to.emit(landRegistry, "TransferRequested");
+      expect(await landRegistry.ownerOf(0)).to.equal(seller.address);
+      expect((await landRegistry.lands(0)).isForSale).to.equal(false);
+      // The overpayment is refunded straight away
+      expect(await balanceOf(landRegistry)).to.equal(ETH("1.1"));
+
+      const sellerBalance = await balanceOf(seller);
+      await expect(connect(landRegistry, registrar).approveTransfer(0))
+        .to.emit(landRegistry, "LandSold")
+        .withArgs(0, seller.address, buyer.address, ETH("1"));
+      expect(await landRegistry.ownerOf(0)).to.equal(buyer.address);
+      expect(await balanceOf(seller)).to.equal(sellerBalance + ETH("1"));
+      expect(await landRegistry.treasuryBalance()).to.equal(ETH("0.1"));
+      expect(await balanceOf(landRegistry)).to.equal(ETH("0.1"));
+    });
+
+    it("blocks transfers, relisting and other buyers while pending", async function () {
+      const { landRegistry, seller, buyer, other } =
+        await loadFixture(escrowFixture);
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.1") });
+
+      await expect(
+        connect(landRegistry, seller).transferFrom(
+          seller.address,
+          other.address,
+          0,
+        ),
+      ).to.be.revertedWith("Transfer pending approval");
+      await expect(
+        connect(landRegistry, seller).listLand(0, ETH("5")),
+      ).to.be.revertedWith("Transfer pending approval");
+      await expect(
+        connect(landRegistry, other).buyLand(0, { value: ETH("1.1") }),
+      ).to.be.revertedWith("Land not for sale");
+    });
+
+    it("only lets an impartial registrar for the state decide", async function () {
+      const { landRegistry, owner, buyer, registrar, other } =
+        await loadFixture(escrowFixture);
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.1") });
+      await expect(
+        connect(landRegistry, other).approveTransfer(0),
+      ).to.be.revertedWith("Not a registrar for this state");
+
+      // Land #1 is in Kerala, where `registrar` has no authority, and is
+      // bought by the contract owner, who may not approve their own purchase
+      await expect(
+        connect(landRegistry, registrar).rejectTransfer(1, "No sale"),
+      ).to.be.revertedWith("Not a registrar for this state");
+      await landRegistry.transferFrom(owner.address, other.address, 1);
+      await connect(landRegistry, other).listLand(1, ETH("2"));
+      await landRegistry.buyLand(1, { value: ETH("2.2") });
+      await expect(landRegistry.approveTransfer(1)).to.be.revertedWith(
+        "Registrar is a party to the sale",
+      );
+    });
+
+    it("refunds the buyer in full and relists on rejection", async function () {
+      const { landRegistry, seller, buyer, registrar, other } =
+        await loadFixture(escrowFixture);
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.1") });
+
+      const buyerBalance = await balanceOf(buyer);
+      await expect(
+        connect(landRegistry, registrar).rejectTransfer(0, "Encumbrance found"),
+      )
+        .to.emit(landRegistry, "TransferRejected")
+        .withArgs(0, registrar.address, "Encumbrance found");
+      expect(await balanceOf(buyer)).to.equal(buyerBalance + ETH("1.1"));
+      expect(await landRegistry.ownerOf(0)).to.equal(seller.address);
+      expect(await landRegistry.treasuryBalance()).to.equal(0);
+      expect(await balanceOf(landRegistry)).to.equal(0);
+
+      // Listed again at the same price, so the next buyer can go through
+      expect((await landRegistry.lands(0)).isForSale).to.equal(true);
+      await connect(landRegistry, other).buyLand(0, { value: ETH("1.1") });
+      await connect(landRegistry, registrar).approveTransfer(0);
+      expect(await landRegistry.ownerOf(0)).to.equal(other.address);
+    });
+
+    it("refunds and relists once the approval deadline passes", async function () {
+      const { landRegistry, seller, buyer, registrar, other } =
+        await loadFixture(escrowFixture);
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.1") });
+      await expect(
+        connect(landRegistry, other).refundExpiredTransfer(0),
+      ).to.be.revertedWith("Approval deadline not reached");
+
+      await time.increase(ESCROW_PERIOD + 1);
+      await expect(
+        connect(landRegistry, registrar).approveTransfer(0),
+      ).to.be.revertedWith("Approval deadline passed");
+
+      // Anyone may trigger the refund
+      const buyerBalance = await balanceOf(buyer);
+      await expect(connect(landRegistry, other).refundExpiredTransfer(0))
+        .to.emit(landRegistry, "TransferExpired")
+        .withArgs(0);
+      expect(await balanceOf(buyer)).to.equal(buyerBalance + ETH("1.1"));
+      expect(await balanceOf(landRegistry)).to.equal(0);
+
+      expect((await landRegistry.lands(0)).isForSale).to.equal(true);
+      await connect(landRegistry, seller).updatePrice(0, ETH("1.5"));
+      await connect(landRegistry, other).buyLand(0, { value: ETH("1.65") });
+      await connect(landRegistry, registrar).approveTransfer(0);
+      expect(await landRegistry.ownerOf(0)).to.equal(other.address);
+    });
+
+    it("frees the parcel when the buyer refuses its refund", async function () {
+      const { landRegistry, seller, registrar, other } =
+        await loadFixture(escrowFixture);
+      const RejectingWallet =
+        await ethers.getContractFactory("RejectingWallet");
+      const buyer = (await RejectingWallet.deploy()) as Contract;
+      const buyerAddress = await buyer.getAddress();
+      const registryAddress = await landRegistry.getAddress();
+      const buyLand = landRegistry.interface.encodeFunctionData("buyLand", [0]);
+
+      await buyer.execute(registryAddress, buyLand, { value: ETH("1.1") });
+      await connect(landRegistry, registrar).rejectTransfer(0, "Forged deed");
+      expect(await landRegistry.pendingWithdrawals(buyerAddress)).to.equal(
+        ETH("1.1"),
+      );
+      expect((await landRegistry.lands(0)).isForSale).to.equal(true);
+
+      // Expired sales are refunded the same way
+      await buyer.execute(registryAddress, buyLand, { value: ETH("1.1") });
+      await time.increase(ESCROW_PERIOD + 1);
+      await connect(landRegistry, other).refundExpiredTransfer(0);
+      expect(await landRegistry.pendingWithdrawals(buyerAddress)).to.equal(
+        ETH("2.2"),
+      );
+      await connect(landRegistry, seller).transferFrom(
+        seller.address,
+        other.address,
+        0,
+      );
+      expect(await landRegistry.ownerOf(0)).to.equal(other.address);
+
+      await buyer.setAccepting(true);
+      await buyer.execute(
+        registryAddress,
+        landRegistry.interface.encodeFunctionData("withdraw"),
+      );
+      expect(await balanceOf(buyer)).to.equal(ETH("2.2"));
+      expect(await balanceOf(landRegistry)).to.equal(0);
+    });
+
+    it("transfers immediately once escrow is turned off", async function () {
+      const { landRegistry, buyer } = await loadFixture(escrowFixture);
+      await landRegistry.setEscrowPeriod(0);
+
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.1") });
+      expect(await landRegistry.ownerOf(0)).to.equal(buyer.address);
+    });
+  });
+
+  describe("Offers", function () {
+    // Land #0 owned by `seller`, unlisted, with 10% stamp duty
+    async function offersFixture() {
+      const fixture = await deployFixture();
+      const { landRegistry, owner, seller } = fixture;
+      await landRegistry.transferFrom(owner.address, seller.address, 0);
+      await landRegistry.setStampDuty("", 1000);
+      return fixture;
+    }
+
+    async function expiresIn(seconds: number) {
+      return (await time.latest()) + seconds;
+    }
+
+    it("holds the price plus stamp duty and refunds the rest", async function () {
+      const { landRegistry, seller, buyer } = await loadFixture(offersFixture);
+      await expect(
+        connect(landRegistry, seller).makeOffer(
+          0,
+          ETH("1"),
+          await expiresIn(100),
+          {
+            value: ETH("1.1"),
+          },
+        ),
+      ).to.be.revertedWith("You already own this");
+      await expect(
+        connect(landRegistry, buyer).makeOffer(0, ETH("1"), 1, {
+          value: ETH("1.1"),
+        }),
+      ).to.be.revertedWith("Expiry must be in the future");
+      await expect(
+        connect(landRegistry, buyer).makeOffer(
+          0,
+          ETH("1"),
+          await expiresIn(100),
+          {
+            value: ETH("1.09"),
+          },
+        ),
+      ).to.be.revertedWith("Insufficient funds");
+
+      const buyerBalance = await balanceOf(buyer);
+      const tx = await connect(landRegistry, buyer).makeOffer(
+        0,
+        ETH("1"),
+        await expiresIn(100),
+        { value: ETH("5") },
+      );
+      expect(await balanceOf(buyer)).to.equal(
+        buyerBalance - ETH("1.1") - (await gasCost(tx)),
+      );
+      expect(await balanceOf(landRegistry)).to.equal(ETH("1.1"));
+    });
+
+    it("settles a taken counter-offer at the new price", async function () {
+      const { landRegistry, seller, buyer, other } =
+        await loadFixture(offersFixture);
+      await connect(landRegistry, buyer).makeOffer(
+        0,
+        ETH("1"),
+        await expiresIn(100),
+        { value: ETH("1.1") },
+      );
+      await expect(
+        connect(landRegistry, seller).counterOffer(0, 0, ETH("0.5")),
+      ).to.be.revertedWith("Counter must exceed the offer");
+      await expect(connect(landRegistry, seller).counterOffer(0, 0, ETH("2")))
+        .to.emit(landRegistry, "OfferCountered")
+        .withArgs(0, 0, ETH("2"));
+      await expect(
+        connect(landRegistry, other).acceptCounterOffer(0, 0),
+      ).to.be.revertedWith("Not your offer");
+      // 2.2 is due and 1.1 is already deposited
+      await expect(
+        connect(landRegistry, buyer).acceptCounterOffer(0, 0, {
+          value: ETH("1"),
+        }),
+      ).to.be.revertedWith("Insufficient funds");
+
+      const sellerBalance = await balanceOf(seller);
+      await expect(
+        connect(landRegistry, buyer).acceptCounterOffer(0, 0, {
+          value: ETH("1.5"),
+        }),
+      )
+        .to.emit(landRegistry, "LandSold")
+        .withArgs(0, seller.address, buyer.address, ETH("2"));
+      expect(await landRegistry.ownerOf(0)).to.equal(buyer.address);
+      expect(await balanceOf(seller)).to.equal(sellerBalance + ETH("2"));
+      expect(await landRegistry.treasuryBalance()).to.equal(ETH("0.2"));
+      expect(await balanceOf(landRegistry)).to.equal(ETH("0.2"));
+    });
+
+    it("refunds rejected, withdrawn and expired offers", async function () {
+      const { landRegistry, seller, buyer, other } =
+        await loadFixture(offersFixture);
+      await connect(landRegistry, buyer).makeOffer(
+        0,
+        ETH("1"),
+        await expiresIn(100),
+        { value: ETH("1.1") },
+      );
+      await connect(landRegistry, other).makeOffer(
+        0,
+        ETH("0.5"),
+        await expiresIn(10),
+        { value: ETH("0.55") },
+      );
+
+      const buyerBalance = await balanceOf(buyer);
+      await expect(connect(landRegistry, seller).rejectOffer(0, 0))
+        .to.emit(landRegistry, "OfferRejected")
+        .withArgs(0, 0);
+      expect(await balanceOf(buyer)).to.equal(buyerBalance + ETH("1.1"));
+      await expect(
+        connect(landRegistry, buyer).withdrawOffer(0, 0),
+      ).to.be.revertedWith("Offer not open");
+
+      await time.increase(20);
+      await expect(
+        connect(landRegistry, seller).acceptOffer(0, 1),
+      ).to.be.revertedWith("Offer expired");
+      await expect(connect(landRegistry, other).withdrawOffer(0, 1))
+        .to.emit(landRegistry, "OfferWithdrawn")
+        .withArgs(0, 1);
+      expect(await balanceOf(landRegistry)).to.equal(0);
+    });
+
+    it("cannot accept an offer from the parcel's owner", async function () {
+      const { landRegistry, seller, buyer } = await loadFixture(offersFixture);
+      // The buyer offers, then buys the parcel outright
+      await connect(landRegistry, buyer).makeOffer(
+        0,
+        ETH("0.5"),
+        await expiresIn(1000),
+        { value: ETH("0.55") },
+      );
+      await connect(landRegistry, seller).listLand(0, ETH("1"));
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1.1") });
+
+      await expect(
+        connect(landRegistry, buyer).acceptOffer(0, 0),
+      ).to.be.revertedWith("You already own this");
+      await connect(landRegistry, buyer).withdrawOffer(0, 0);
+      expect(await balanceOf(landRegistry)).to.equal(ETH("0.1"));
+    });
+
+    it("requires a price to list or reprice land", async function () {
+      const { landRegistry, seller } = await loadFixture(offersFixture);
+      await expect(
+        connect(landRegistry, seller).listLand(0, 0),
+      ).to.be.revertedWith("Price required");
+      await connect(landRegistry, seller).listLand(0, ETH("1"));
+      await expect(
+        connect(landRegistry, seller).updatePrice(0, 0),
+      ).to.be.revertedWith("Price required");
+      await expect(
+        landRegistry.registerLand(
+          "GA-2",
+          "Margao",
+          "Goa",
+          0,
+          0,
+          ethers.id("GA-2"),
+          0,
+          "ipfs://ga-2",
+        ),
+      ).to.be.revertedWith("Price required");
+    });
+  });
+
+  describe("Auctions", function () {
+    // Land #0 auctioned by the owner: reserve 1 ETH, 0.1 ETH increments,
+    // 10% stamp duty
+    async function auctionFixture() {
+      const fixture = await deployFixture();
+      const { landRegistry } = fixture;
+      await landRegistry.setStampDuty("", 1000);
+      const endTime = (await time.latest()) + AUCTION_DURATION;
+      await landRegistry.startAuction(0, ETH("1"), ETH("0.1"), endTime);
+      return { ...fixture, endTime };
+    }
+
+    it("takes the land off the market and blocks transfers", async function () {
+      const { landRegistry, owner, other } = await loadFixture(auctionFixture);
+      expect((await landRegistry.lands(0)).isForSale).to.equal(false);
+
+      await expect(landRegistry.listLand(0, ETH("1"))).to.be.revertedWith(
+        "Land under auction",
+      );
+      await expect(
+        landRegistry.transferFrom(owner.address, other.address, 0),
+      ).to.be.revertedWith("Land under auction");
+    });
+
+    it("requires the reserve, then each increment", async function () {
+      const { landRegistry, seller, buyer } = await loadFixture(auctionFixture);
+      await expect(
+        landRegistry.bid(0, ETH("1"), { value: ETH("1.1") }),
+      ).to.be.revertedWith("Seller cannot bid");
+      await expect(
+        connect(landRegistry, buyer).bid(0, ETH("0.9"), { value: ETH("1") }),
+      ).to.be.revertedWith("Bid below reserve");
+      await expect(
+        connect(landRegistry, buyer).bid(0, ETH("1"), { value: ETH("1.09") }),
+      ).to.be.revertedWith("Insufficient funds");
+
+      // The excess over the bid and its stamp duty is refunded
+      await connect(landRegistry, buyer).bid(0, ETH("1"), { value: ETH("3") });
+      expect(await balanceOf(landRegistry)).to.equal(ETH("1.1"));
+      await expect(
+        connect(landRegistry, seller).bid(0, ETH("1.05"), {
+          value: ETH("1.2"),
+        }),
+      ).to.be.revertedWith("Bid increment too low");
+      await expect(landRegistry.cancelAuction(0)).to.be.revertedWith(
+        "Auction has bids",
+      );
+    });
+
+    it("credits outbid deposits for withdrawal", async function () {
+      const { landRegistry, seller, buyer } = await loadFixture(auctionFixture);
+      await connect(landRegistry, buyer).bid(0, ETH("1"), {
+        value: ETH("1.1"),
+      });
+      await connect(landRegistry, seller).bid(0, ETH("1.1"), {
+        value: ETH("1.21"),
+      });
+      expect(await landRegistry.pendingWithdrawals(buyer.address)).to.equal(
+        ETH("1.1"),
+      );
+
+      const buyerBalance = await balanceOf(buyer);
+      const tx = await connect(landRegistry, buyer).withdraw();
+      await expect(tx)
+        .to.emit(landRegistry, "Withdrawn")
+        .withArgs(buyer.address, ETH("1.1"));
+      expect(await balanceOf(buyer)).to.equal(
+        buyerBalance + ETH("1.1") - (await gasCost(tx)),
+      );
+      await expect(connect(landRegistry, buyer).withdraw()).to.be.revertedWith(
+        "Nothing to withdraw",
+      );
+      expect(await balanceOf(landRegistry)).to.equal(ETH("1.21"));
+    });
+
+    it("extends the auction for bids near the end", async function () {
+      const { landRegistry, buyer, other, endTime } =
+        await loadFixture(auctionFixture);
+      await time.increaseTo(endTime - 60);
+      const tx = await connect(landRegistry, buyer).bid(0, ETH("1"), {
+        value: ETH("1.1"),
+      });
+      const bidTime = (await ethers.provider.getBlock(tx.blockNumber!))!
+        .timestamp;
+      expect((await landRegistry.auctions(0)).endTime).to.equal(
+        bidTime + AUCTION_EXTENSION,
+      );
+
+      await time.increaseTo(endTime + 1);
+      await expect(landRegistry.settleAuction(0)).to.be.revertedWith(
+        "Auction not ended",
+      );
+      await connect(landRegistry, other).bid(0, ETH("1.1"), {
+        value: ETH("1.21"),
+      });
+      await time.increase(AUCTION_EXTENSION + 1);
+      await expect(
+        connect(landRegistry, buyer).bid(0, ETH("2"), { value: ETH("2.2") }),
+      ).to.be.revertedWith("Auction ended");
+    });
+
+    it("sells to the highest bidder once ended", async function () {
+      const { landRegistry, owner, buyer, other, endTime } =
+        await loadFixture(auctionFixture);
+      await connect(landRegistry, buyer).bid(0, ETH("1"), {
+        value: ETH("1.1"),
+      });
+      await connect(landRegistry, other).bid(0, ETH("1.2"), {
+        value: ETH("1.32"),
+      });
+      await time.increaseTo(endTime);
+
+      const sellerBalance = await balanceOf(owner);
+      await expect(connect(landRegistry, buyer).settleAuction(0))
+        .to.emit(landRegistry, "AuctionSettled")
+        .withArgs(0, other.address, ETH("1.2"));
+      expect(await landRegistry.ownerOf(0)).to.equal(other.address);
+      expect(await balanceOf(owner)).to.equal(sellerBalance + ETH("1.2"));
+      expect(await landRegistry.treasuryBalance()).to.equal(ETH("0.12"));
+      // What is left is the treasury's and the outbid deposit
+      expect(await balanceOf(landRegistry)).to.equal(ETH("1.22"));
+      await expect(landRegistry.settleAuction(0)).to.be.revertedWith(
+        "No auction",
+      );
+    });
+
+    it("ends without a sale when nobody bid", async function () {
+      const { landRegistry, owner, endTime } =
+        await loadFixture(auctionFixture);
+      await time.increaseTo(endTime);
+
+      await landRegistry.settleAuction(0);
+      expect(await landRegistry.ownerOf(0)).to.equal(owner.address);
+      await landRegistry.listLand(0, ETH("1"));
+    });
+
+    it("credits the proceeds when the seller refuses payment", async function () {
+      const { landRegistry, owner, buyer } = await loadFixture(deployFixture);
+      const RejectingWallet =
+        await ethers.getContractFactory("RejectingWallet");
+      const seller = (await RejectingWallet.deploy()) as Contract;
+      const sellerAddress = await seller.getAddress();
+      await landRegistry.transferFrom(owner.address, sellerAddress, 0);
+      const endTime = (await time.latest()) + AUCTION_DURATION;
+      await seller.execute(
+        await landRegistry.getAddress(),
+        landRegistry.interface.encodeFunctionData("startAuction", [
+          0,
+          ETH("1"),
+          ETH("0.1"),
+          endTime,
+        ]),
+      );
+      await connect(landRegistry, buyer).bid(0, ETH("1"), { value: ETH("1") });
+      await time.increaseTo(endTime);
+
+      await expect(landRegistry.settleAuction(0))
+        .to.emit(landRegistry, "LandSold")
+        .withArgs(0, sellerAddress, buyer.address, ETH("1"));
+      expect(await landRegistry.ownerOf(0)).to.equal(buyer.address);
+      expect(await landRegistry.pendingWithdrawals(sellerAddress)).to.equal(
+        ETH("1"),
+      );
+
+      await seller.setAccepting(true);
+      await seller.execute(
+        await landRegistry.getAddress(),
+        landRegistry.interface.encodeFunctionData("withdraw"),
+      );
+      expect(await balanceOf(seller)).to.equal(ETH("1"));
+      expect(await balanceOf(landRegistry)).to.equal(0);
+    });
+
+    it("holds the winning bid in escrow when escrow is on", async function () {
+      const { landRegistry, owner, buyer, endTime } =
+        await loadFixture(auctionFixture);
+      await landRegistry.setEscrowPeriod(ESCROW_PERIOD);
+      await connect(landRegistry, buyer).bid(0, ETH("1"), {
+        value: ETH("1.1"),
+      });
+      await time.increaseTo(endTime);
+
+      await expect(landRegistry.settleAuction(0)).to.emit(
+        landRegistry,
+        "TransferRequested",
+      );
+      expect(await landRegistry.ownerOf(0)).to.equal(owner.address);
+
+      // Rejected: the bid is returned and the parcel stays off the market
+      const buyerBalance = await balanceOf(buyer);
+      await landRegistry.rejectTransfer(0, "Encumbrance found");
+      expect(await balanceOf(buyer)).to.equal(buyerBalance + ETH("1.1"));
+      expect((await landRegistry.lands(0)).isForSale).to.equal(false);
+    });
+  });
+
+  describe("Liens", function () {
+    const DEED = ethers.id("mortgage deed");
+
+    // A 5 ETH lien on land #0, which the owner had listed at 1 ETH
+    async function lienFixture() {
+      const fixture = await deployFixture();
+      const { landRegistry, other: lender } = fixture;
+      await landRegistry.grantLender(lender.address);
+      await connect(landRegistry, lender).registerLien(0, ETH("5"), DEED);
+      return { ...fixture, lender };
+    }
+
+    it("only lets authorised lenders register liens", async function () {
+      const { landRegistry, other } = await loadFixture(deployFixture);
+      await expect(
+        connect(landRegistry, other).registerLien(0, ETH("5"), DEED),
+      ).to.be.revertedWith("Not an authorised lender");
+      await expect(connect(landRegistry, other).grantLender(other.address)).to
+        .be.reverted;
+
+      await landRegistry.grantLender(other.address);
+      const lender = connect(landRegistry, other);
+      await expect(lender.registerLien(0, 0, DEED)).to.be.revertedWith(
+        "Lien amount required",
+      );
+      await expect(
+        lender.registerLien(0, ETH("5"), ethers.ZeroHash),
+      ).to.be.revertedWith("Document hash required");
+      await expect(lender.registerLien(0, ETH("5"), DEED))
+        .to.emit(landRegistry, "LienRegistered")
+        .withArgs(0, 0, other.address, ETH("5"), DEED);
+      expect((await landRegistry.lands(0)).activeLiens).to.equal(1);
+
+      // Not while the parcel is under auction
+      await landRegistry.delistLand(1);
+      await landRegistry.startAuction(
+        1,
+        ETH("1"),
+        ETH("0.1"),
+        (await time.latest()) + AUCTION_DURATION,
+      );
+      await expect(lender.registerLien(1, ETH("5"), DEED)).to.be.revertedWith(
+        "Land under auction",
+      );
+    });
+
+    it("takes the parcel off the market until released", async function () {
+      const { landRegistry, owner, buyer, other } =
+        await loadFixture(deployFixture);
+      await landRegistry.grantLender(other.address);
+      await expect(connect(landRegistry, other).registerLien(0, ETH("5"), DEED))
+        .to.emit(landRegistry, "LandDelisted")
+        .withArgs(0, owner.address);
+      expect((await landRegistry.lands(0)).isForSale).to.equal(false);
+      const forSale = await landRegistry.getLandsForSale(0, 10);
+      expect(forSale.map((land: { id: bigint }) => land.id)).to.eql([1n]);
+      await expect(
+        connect(landRegistry, buyer).buyLand(0, { value: ETH("1") }),
+      ).to.be.revertedWith("Land not for sale");
+      await expect(landRegistry.listLand(0, ETH("1"))).to.be.revertedWith(
+        "Land has an active lien",
+      );
+    });
+
+    it("blocks every way the title could move", async function () {
+      const { landRegistry, owner, buyer, other } =
+        await loadFixture(lienFixture);
+      await expect(
+        landRegistry.transferFrom(owner.address, other.address, 0),
+      ).to.be.revertedWith("Land has an active lien");
+
+      await connect(landRegistry, buyer).makeOffer(
+        0,
+        ETH("1"),
+        (await time.latest()) + 1000,
+        { value: ETH("1") },
+      );
+      await expect(landRegistry.acceptOffer(0, 0)).to.be.revertedWith(
+        "Land has an active lien",
+      );
+
+      await expect(
+        landRegistry.startAuction(
+          0,
+          ETH("1"),
+          ETH("0.1"),
+          (await time.latest()) + AUCTION_DURATION,
+        ),
+      ).to.be.revertedWith("Land has an active lien");
+    });
+
+    it("frees the title once its lender releases every lien", async function () {
+      const { landRegistry, buyer, lender } = await loadFixture(lienFixture);
+      await connect(landRegistry, lender).registerLien(0, ETH("1"), DEED);
+      // A revoked lender still releases the liens it registered
+      await landRegistry.revokeLender(lender.address);
+
+      await expect(
+        connect(landRegistry, buyer).releaseLien(0, 0),
+      ).to.be.revertedWith("Not the lender");
+      await expect(connect(landRegistry, lender).releaseLien(0, 0))
+        .to.emit(landRegistry, "LienReleased")
+        .withArgs(0, 0, lender.address);
+      await expect(
+        connect(landRegistry, lender).releaseLien(0, 0),
+      ).to.be.revertedWith("Lien already released");
+      await expect(
+        connect(landRegistry, lender).releaseLien(0, 2),
+      ).to.be.revertedWith("Lien not found");
+      await expect(landRegistry.listLand(0, ETH("1"))).to.be.revertedWith(
+        "Land has an active lien",
+      );
+
+      await connect(landRegistry, lender).releaseLien(0, 1);
+      const liens = await landRegistry.getLiens(0);
+      expect(liens.map((lien: { released: boolean }) => lien.released)).to.eql([
+        true,
+        true,
+      ]);
+      await landRegistry.listLand(0, ETH("1"));
+      await connect(landRegistry, buyer).buyLand(0, { value: ETH("1") });
+      expect(await landRegistry.ownerOf(0)).to.equal(buyer.address);
+    });
+  });
+});
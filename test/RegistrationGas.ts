@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  DEFAULT_BATCH_GAS_LIMIT,
+  DEFAULT_BATCH_SIZE,
+  PreparedParcel,
+  createLandBoundary,
+  loadGovernmentLands,
+  toRegistration,
+} from "../scripts/governmentLands";
+
+// The import's default IMPORT_BATCH_SIZE
+const BATCH_SIZE = DEFAULT_BATCH_SIZE;
+
+// Dataset parcels with unique survey numbers, so both runs use the same
+// realistic string lengths without tripping the duplicate check.
+function syntheticParcels(run: string, count: number): PreparedParcel[] {
+  const lands = loadGovernmentLands();
+  return Array.from({ length: count }, (_, i) => {
+    const source = lands[i % lands.length];
+    const land = {
+      ...source,
+      surveyNumber: `${source.surveyNumber}-${run}-${i}`,
+    };
+    return {
+      land,
+      boundary: createLandBoundary(source),
+      tokenURI: `https://land-registry.gov.in/metadata/${land.surveyNumber}`,
+    };
+  });
+}
+
+// With REPORT_GAS=true (npm run gas:report) hardhat-gas-reporter prints the
+// gas per registerLand call and per registerLands call of BATCH_SIZE parcels.
+describe("Registration gas", function () {
+  it(`costs less per parcel in batches of ${BATCH_SIZE}`, async function () {
+    const LandRegistry = await ethers.getContractFactory("LandRegistry");
+    const landRegistry = await LandRegistry.deploy();
+
+    let singleGas = BigInt(0);
+    for (const parcel of syntheticParcels("single", BATCH_SIZE)) {
+      const registration = toRegistration(parcel);
+      const tx = await landRegistry.registerLand(
+        registration.surveyNumber,
+        registration.location,
+        registration.state,
+        registration.latitude,
+        registration.longitude,
+        registration.boundaryHash,
+        registration.price,
+        registration.tokenURI,
+      );
+      singleGas += (await tx.wait())!.gasUsed;
+    }
+
+    const tx = await landRegistry.registerLands(
+      syntheticParcels("batch", BATCH_SIZE).map(toRegistration),
+    );
+    const batchGas = (await tx.wait())!.gasUsed;
+
+    expect(await landRegistry.nextTokenId()).to.equal(BigInt(2 * BATCH_SIZE));
+    expect(batchGas).to.be.lessThan(singleGas);
+    // Otherwise every default batch is shrunk before it is sent
+    expect(batchGas).to.be.lessThan(DEFAULT_BATCH_GAS_LIMIT);
+  });
+});